@@ -34,14 +34,25 @@ fi
 
 echo "Environment variables loaded successfully."
 
-# Construct the connection string (use double quotes for variable expansion)
-CONNECTION_STRING="https://${SN_USER}:${SN_PASSWORD}@${SN_INSTANCE}.service-now.com"
+# Hand the settings to the server in a private, temporary config file. Passing them with the inspector's -e
+# flags would put the password on the inspector's command line, where ps shows it.
+CONFIG_FILE="$(mktemp)"
+trap 'rm -f "$CONFIG_FILE"' EXIT
+chmod 600 "$CONFIG_FILE"
+CONFIG_FILE="$CONFIG_FILE" node -e '
+const keys = {
+  SN_INSTANCE: "instance", SN_AUTH_TYPE: "authType", SN_USER: "username", SN_PASSWORD: "password",
+  SN_CLIENT_ID: "clientId", SN_CLIENT_SECRET: "clientSecret", SN_TOKEN: "token", SN_API_KEY: "apiKey",
+};
+const config = {};
+for (const [name, key] of Object.entries(keys)) {
+  if (process.env[name]) config[key] = process.env[name];
+}
+require("fs").writeFileSync(process.env.CONFIG_FILE, JSON.stringify(config));
+'
 
 # Execute the inspector command
 echo "Running inspector command..."
-npx @modelcontextprotocol/inspector node "$INDEX_JS" \
-  --connection-string "$CONNECTION_STRING"
+npx @modelcontextprotocol/inspector -- node "$INDEX_JS" --config "$CONFIG_FILE"
 
 echo "Inspector command finished."
-
-exit 0
\ No newline at end of file
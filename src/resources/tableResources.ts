@@ -0,0 +1,121 @@
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { getTableSchema } from '../tools/getTableSchema.js';
+import { getFieldChoices } from '../tools/getFieldChoices.js';
+import { getAclDetails } from '../tools/getAclDetails.js';
+import { findBusinessRules } from '../tools/getBusinessRuleDetails.js';
+import { MimeType, Resource, ResourceTemplate, SysDbObjectResponse } from '../types.js';
+
+export const RESOURCE_SCHEME = 'servicenow';
+
+// Number of tables returned per resources/list page
+const TABLE_PAGE_SIZE = 100;
+
+export const TABLE_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+    {
+        uriTemplate: `${RESOURCE_SCHEME}://table/{tableName}/schema`,
+        name: 'ServiceNow table schema',
+        description: 'Fields (name, label, type, reference, max length, mandatory, read-only) of a ServiceNow table, as returned by get_table_schema.',
+        mimeType: MimeType.JSON,
+    },
+    {
+        uriTemplate: `${RESOURCE_SCHEME}://table/{tableName}/field/{fieldName}/choices`,
+        name: 'ServiceNow field choices',
+        description: 'Active choices (value/label pairs) for a choice or state field on a ServiceNow table.',
+        mimeType: MimeType.JSON,
+    },
+    {
+        uriTemplate: `${RESOURCE_SCHEME}://table/{tableName}/acls`,
+        name: 'ServiceNow table ACLs',
+        description: 'Access Control List records for a ServiceNow table and its fields.',
+        mimeType: MimeType.JSON,
+    },
+    {
+        uriTemplate: `${RESOURCE_SCHEME}://table/{tableName}/business_rules`,
+        name: 'ServiceNow table business rules',
+        description: 'Business Rules running on a ServiceNow table, ordered by execution order.',
+        mimeType: MimeType.JSON,
+    },
+];
+
+// Matches servicenow://table/<table>/<kind> and servicenow://table/<table>/field/<field>/choices
+const TABLE_URI_REGEX = new RegExp(`^${RESOURCE_SCHEME}://table/([^/]+)/(schema|acls|business_rules|field/([^/]+)/choices)$`);
+
+export function tableSchemaUri(tableName: string): string {
+    return `${RESOURCE_SCHEME}://table/${encodeURIComponent(tableName)}/schema`;
+}
+
+/**
+ * Lists one schema resource per table in sys_db_object, a page at a time.
+ * The cursor is the sysparm_offset of the next page.
+ * @param cursor Opaque pagination cursor returned by a previous call
+ */
+export async function listTableResources(
+    cursor?: string
+): Promise<{ resources: Resource[]; nextCursor?: string }> {
+    const client = getAuthenticatedClient();
+
+    const offset = cursor ? parseInt(cursor, 10) : 0;
+    if (isNaN(offset) || offset < 0) {
+        throw new Error(`Invalid resources/list cursor: '${cursor}'`);
+    }
+
+    const response = await client.get<SysDbObjectResponse>('/table/sys_db_object', {
+        params: {
+            sysparm_query: new QueryBuilder().where('name', 'ISNOTEMPTY').orderBy('name').build(),
+            sysparm_fields: 'name,label,sys_id',
+            sysparm_limit: TABLE_PAGE_SIZE,
+            sysparm_offset: offset,
+        },
+    });
+
+    const tables = response.result || [];
+
+    const resources = tables.map((table): Resource => ({
+        uri: tableSchemaUri(table.name),
+        name: `${table.label || table.name} (${table.name}) schema`,
+        mimeType: MimeType.JSON,
+    }));
+
+    return {
+        resources,
+        nextCursor: tables.length === TABLE_PAGE_SIZE ? String(offset + TABLE_PAGE_SIZE) : undefined,
+    };
+}
+
+/**
+ * Resolves a servicenow://table/... URI to the JSON produced by the matching tool.
+ * @param uri The resource URI requested by the client
+ * @returns The serialized resource contents
+ */
+export async function readTableResource(uri: string): Promise<string> {
+    const match = TABLE_URI_REGEX.exec(uri);
+    if (!match) {
+        throw new Error(`Invalid resource URI: '${uri}'. Expected ${TABLE_RESOURCE_TEMPLATES.map(t => t.uriTemplate).join(', ')}`);
+    }
+
+    const tableName = decodeURIComponent(match[1]);
+    const kind = match[2];
+
+    if (kind === 'schema') {
+        const schema = await getTableSchema(tableName);
+        if (schema === null) {
+            throw new Error(`Table '${tableName}' not found.`);
+        }
+        return JSON.stringify(schema, null, 2);
+    } else if (kind === 'acls') {
+        const acls = await getAclDetails({ aclNameOrTable: tableName });
+        return JSON.stringify(acls, null, 2);
+    } else if (kind === 'business_rules') {
+        const rules = await findBusinessRules({ tableName });
+        return JSON.stringify(rules, null, 2);
+    }
+
+    // Only field/<field>/choices remains
+    const fieldName = decodeURIComponent(match[3]);
+    const choices = await getFieldChoices(tableName, fieldName);
+    if (choices === null) {
+        throw new Error(`Error fetching choices for field '${fieldName}' on table '${tableName}'.`);
+    }
+    return JSON.stringify(choices, null, 2);
+}
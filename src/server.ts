@@ -1,6 +1,11 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
     ListResourcesRequestSchema,
+    ListResourcesResultSchema,
+    ListResourceTemplatesRequestSchema,
+    ListResourceTemplatesResultSchema,
+    ReadResourceRequestSchema,
+    ReadResourceResultSchema,
     ListToolsRequestSchema,
     CallToolRequestSchema,
     CallToolResultSchema,
@@ -8,15 +13,33 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { TableSchema, FieldChoice } from "./types.js";
+import { TableSchema, PaginatedResult } from "./types.js";
 import { getTableSchema } from "./tools/getTableSchema.js";
 import { getFieldChoices } from "./tools/getFieldChoices.js";
 import { getScriptIncludeApi } from "./tools/getScriptIncludeApi.js";
+import { getScriptDependencies } from "./tools/getScriptDependencies.js";
+import { findCallers } from "./tools/findCallers.js";
+import { validateScript } from "./tools/validateScript.js";
+import { generateTypings } from "./tools/generateTypings.js";
 import { findRelevantScripts } from "./tools/findRelevantScripts.js";
+import { SCRIPT_TABLES } from "./tools/scriptRegistry.js";
+import { searchCode } from "./tools/searchCode.js";
 import { findSystemProperties } from "./tools/findSystemProperties.js";
 import { findBusinessRules } from "./tools/getBusinessRuleDetails.js";
-import { initializeService } from "./services/serviceNowService.js";
+import { initializeService, setDefaultInstance, listInstances, getAuthenticatedClient, InitializeServiceOptions } from "./services/serviceNowService.js";
+import { CacheOptions } from "./services/responseCache.js";
 import { getAclDetails } from "./tools/getAclDetails.js";
+import { compareInstances } from "./tools/compareInstances.js";
+import { listTableResources, readTableResource, TABLE_RESOURCE_TEMPLATES } from "./resources/tableResources.js";
+import { MimeType } from "./types.js";
+import { queryRecords, configureQueryRecords, QueryRecordsOptions, DisplayValueMode } from "./tools/queryRecords.js";
+import { getTableStats, HavingClause } from "./tools/getTableStats.js";
+import { getFormLogic } from "./tools/getFormLogic.js";
+import { getTableRelationships, RelationshipKind, RELATIONSHIP_KINDS } from "./tools/getTableRelationships.js";
+import { getTableHierarchy } from "./tools/getTableHierarchy.js";
+import { getTableExecutionTimeline, TimelineOperation, TIMELINE_OPERATIONS } from "./tools/getTableExecutionTimeline.js";
+import { QueryCondition, QUERY_OPERATORS } from "./services/queryBuilder.js";
+import { executeScript, configureExecuteScript, isExecuteScriptEnabled, ExecuteScriptOptions } from "./tools/executeScript.js";
 
 export const server = new Server(
     {
@@ -25,134 +48,632 @@ export const server = new Server(
     },
     {
         capabilities: {
-            // resources: {},
+            resources: {},
             tools: {},
         }
     }
 );
 
-// Define available tools
-server.setRequestHandler(ListToolsRequestSchema, async (): Promise<z.infer<typeof ListToolsResultSchema>> => {
+// Expose tables as resources so clients can attach schemas as context
+server.setRequestHandler(ListResourcesRequestSchema, async (request): Promise<z.infer<typeof ListResourcesResultSchema>> => {
+    return await listTableResources(request.params?.cursor);
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async (): Promise<z.infer<typeof ListResourceTemplatesResultSchema>> => {
     return {
-        tools: [
+        resourceTemplates: TABLE_RESOURCE_TEMPLATES
+    };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request): Promise<z.infer<typeof ReadResourceResultSchema>> => {
+    const uri = request.params.uri;
+    const text = await readTableResource(uri);
+
+    return {
+        contents: [
             {
-                name: "get_table_schema",
-                description: "Get the schema / table definition for a ServiceNow table by its technical name (e.g., 'incident').",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        tableName: { type: "string", description: "The technical name of the ServiceNow table." },
+                uri,
+                mimeType: MimeType.JSON,
+                text,
+            }
+        ]
+    };
+});
+
+// Lists are returned as-is unless the instance had more matches than were fetched
+function formatPaginated<T>(result: PaginatedResult<T>): string {
+    if (!result.truncated) {
+        return JSON.stringify(result.records, null, 2);
+    }
+    return JSON.stringify({
+        truncated: true,
+        totalCount: result.totalCount,
+        returned: result.records.length,
+        results: result.records,
+    }, null, 2);
+}
+
+type ToolDefinition = z.infer<typeof ListToolsResultSchema>["tools"][number];
+
+// Every instance-bound tool accepts an optional instance profile name
+function withInstanceArgument(tool: ToolDefinition): ToolDefinition {
+    return {
+        ...tool,
+        inputSchema: {
+            ...tool.inputSchema,
+            properties: {
+                ...tool.inputSchema.properties,
+                instance: {
+                    type: "string",
+                    description: "Optional. The name of the instance profile to query (see list_instances). Defaults to the default profile."
+                }
+            }
+        }
+    };
+}
+
+// Define available tools
+server.setRequestHandler(ListToolsRequestSchema, async (): Promise<z.infer<typeof ListToolsResultSchema>> => {
+    const instanceTools: ToolDefinition[] = [
+        {
+            name: "get_table_schema",
+            description: "Get the schema / table definition for a ServiceNow table by its technical name (e.g., 'incident'). Includes fields inherited from parent tables (e.g., 'task' fields on 'incident') with dictionary overrides applied; each field reports the table it is defined on.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    tableName: { type: "string", description: "The technical name of the ServiceNow table." },
+                },
+                required: ["tableName"]
+            }
+        },
+        {
+            name: "get_field_choices",
+            description: "Get the available choices for a specific field on a ServiceNow table. Useful for fields of type 'choice' or integer fields representing states (e.g., incident state).",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    tableName: { type: "string", description: "The technical name of the ServiceNow table (e.g., 'incident')." },
+                    fieldName: { type: "string", description: "The technical name of the field (element) on the table (e.g., 'state')." },
+                },
+                required: ["tableName", "fieldName"]
+            }
+        },
+        {
+            name: "get_script_include_api",
+            description: "Retrieves the API of a specific Script Include: its methods with parameters, JSDoc @param/@returns types and descriptions, the constructor (initialize), private (_-prefixed) methods, and methods inherited through Object.extendsObject from parent Script Includes. Also reports whether it is client callable (GlideAjax) and its access level. Helps understand how to call server-side reusable code.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    scriptIncludeName: {
+                        type: "string",
+                        description: "The name or API name of the Script Include (e.g., 'IncidentUtils' or 'x_acme_app.Helper')."
+                    }
+                },
+                required: ["scriptIncludeName"]
+            }
+        },
+        {
+            name: "get_script_dependencies",
+            description: "Statically analyses a script record (a Script Include by default) and reports the Script Includes it instantiates or calls (new Foo(), global.Foo, x_scope.Foo, GlideAjax) and which of their methods, the tables it queries via GlideRecord/GlideAggregate, the system properties it reads via gs.getProperty and the events it queues. With depth > 1, referenced Script Includes are analysed too, producing a dependency graph.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    name: {
+                        type: "string",
+                        description: "The name of the script record (e.g., 'IncidentUtils'). Either name or sysId must be provided."
+                    },
+                    sysId: {
+                        type: "string",
+                        description: "Optional. The sys_id of the script record, to pick one of several records with the same name."
+                    },
+                    scriptType: {
+                        type: "string",
+                        description: `Optional. The type of the script record (defaults to 'Script Include'). One of: ${SCRIPT_TABLES.map(definition => `'${definition.typeLabel}'`).join(', ')}.`
                     },
-                    required: ["tableName"]
+                    depth: {
+                        type: "number",
+                        description: "Optional. Levels of Script Include dependencies to follow (defaults to 1, at most 3)."
+                    }
                 }
-            },
-            {
-                name: "get_field_choices",
-                description: "Get the available choices for a specific field on a ServiceNow table. Useful for fields of type 'choice' or integer fields representing states (e.g., incident state).",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        tableName: { type: "string", description: "The technical name of the ServiceNow table (e.g., 'incident')." },
-                        fieldName: { type: "string", description: "The technical name of the field (element) on the table (e.g., 'state')." },
+            }
+        },
+        {
+            name: "find_callers",
+            description: "Finds every script that references a given Script Include, or one of its methods: server-side code instantiating or calling it and client-side code calling it through GlideAjax. Scripts are parsed, so mentions in comments or strings are ignored.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    scriptIncludeName: {
+                        type: "string",
+                        description: "The name or API name of the Script Include (e.g., 'IncidentUtils' or 'x_acme_app.Helper')."
                     },
-                    required: ["tableName", "fieldName"]
+                    method: {
+                        type: "string",
+                        description: "Optional. Only return scripts calling this method (e.g., 'getManager')."
+                    },
+                    scriptType: {
+                        type: "string",
+                        description: `Optional. Only search one script type. One of: ${SCRIPT_TABLES.map(definition => `'${definition.typeLabel}'`).join(', ')}.`
+                    }
+                },
+                required: ["scriptIncludeName"]
+            }
+        },
+        {
+            name: "validate_script",
+            description: "Checks a server-side script against the instance before it is saved and returns diagnostics with line and column: syntax errors, GlideRecord tables that do not exist, field names not on the record's table (gr.field, setValue, getValue, addQuery, ...), choice values that are not valid for the field, unknown Script Includes or methods, and gs.getProperty names that do not exist. Use it to self-correct generated code.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    script: {
+                        type: "string",
+                        description: "The script to check."
+                    },
+                    tableName: {
+                        type: "string",
+                        description: "Optional. The table of current and previous (e.g., 'incident' for a Business Rule on incident), so their fields are checked too."
+                    }
+                },
+                required: ["script"]
+            }
+        },
+        {
+            name: "generate_typings",
+            description: "Generates TypeScript declaration files (.d.ts) for editor IntelliSense: a typed field map per table so that new GlideRecord('incident') is a GlideRecord<'incident'>, with reference fields typed to their target table and choice fields typed as unions of their sys_choice values, plus class declarations for Script Includes with their JSDoc. Returns each file's content; save them next to the scripts in the editor's project.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    tables: {
+                        type: "array",
+                        items: { type: "string" },
+                        description: "Optional. Tables to generate field maps for (e.g., ['incident', 'sys_user'])."
+                    },
+                    scriptIncludes: {
+                        type: "array",
+                        items: { type: "string" },
+                        description: "Optional. Names or API names of the Script Includes to declare."
+                    }
                 }
+            }
+        },
+        {
+            name: "find_relevant_scripts",
+            description:
+                "Searches for existing code potentially relevant based on table name, keywords, or scope: Business Rules, Script Includes, Client Scripts, UI Actions, UI Policies, ACLs, Scheduled Jobs, Fix Scripts, Scripted REST Resources, Transform Maps and Scripts, Script Actions, Processors, UI Scripts and Service Portal Widgets. Flow Designer actions and flows are not searched (their script steps are stored as variable values). Helps discover existing logic. Results are ranked by relevance (name vs code match, table, scope, active, and how often a Script Include is referenced) and each reason lists the criteria that matched; at most maxResults are returned and truncated is set when more matched. At least one of tableName, keywords, or scopeName must be provided.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    tableName: {
+                        type: "string",
+                        description: "Optional. The technical name of the table (e.g., 'incident').",
+                    },
+                    keywords: {
+                        type: "string",
+                        description: "Optional. Keywords to search in script names or content.",
+                    },
+                    scriptType: {
+                        type: "string",
+                        description:
+                            `Optional. Filter by script type. One of: ${SCRIPT_TABLES.map(definition => `'${definition.typeLabel}'`).join(', ')}.`,
+                    },
+                    scopeName: {
+                        type: "string",
+                        description:
+                            "Optional. The name or label of the application scope to filter by (e.g., 'Global', 'My Custom App').",
+                    },
+                    maxResults: {
+                        type: "number",
+                        description: "Optional. Maximum number of results to return (defaults to 50, at most 200).",
+                    },
+                },
             },
+        },
+        {
+            name: "search_code",
+            description: "Searches code across all script-bearing record types (Business Rules, Script Includes, Client Scripts, UI Actions, ...) and returns, per hit, the field and line numbers that matched with a few lines of context. The instance prefilters on the keywords; an optional regex then filters and locates matches locally. Results are ranked by number of matches. Flow Designer actions and flows are not searched (their script steps are stored as variable values).",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    keywords: {
+                        type: "string",
+                        description: "Text the code must contain (e.g., 'assignment_group'). Used to prefilter on the instance."
+                    },
+                    regex: {
+                        type: "string",
+                        description: "Optional. A JavaScript regular expression the code must match, e.g. 'setValue\\(.assignment_group'. Should be consistent with keywords, which are still used as the prefilter. At most 200 characters, without nested quantifiers such as (a+)+; only the first 1000 characters of each line are matched."
+                    },
+                    caseSensitive: {
+                        type: "boolean",
+                        description: "Optional. Match case when locating matches (defaults to false)."
+                    },
+                    tableName: {
+                        type: "string",
+                        description: "Optional. Restricts record types that run on a table (Business Rules, Client Scripts, UI Actions, ...) to this table."
+                    },
+                    scriptType: {
+                        type: "string",
+                        description: `Optional. Only search one script type. One of: ${SCRIPT_TABLES.map(definition => `'${definition.typeLabel}'`).join(', ')}.`
+                    },
+                    scopeName: {
+                        type: "string",
+                        description: "Optional. The name or label of the application scope to search in."
+                    },
+                    contextLines: {
+                        type: "number",
+                        description: "Optional. Lines of context before and after each matching line (defaults to 2, at most 10)."
+                    },
+                    maxResults: {
+                        type: "number",
+                        description: "Optional. Maximum number of records to return (defaults to 20, at most 100)."
+                    }
+                },
+                required: ["keywords"]
+            }
+        },
+        {
+            name: "find_system_properties",
+            description: "Searches system properties (sys_properties) by exact name OR wildcard in description. Returns name, value, description, scope, and last updated date.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    searchTerm: {
+                        type: "string",
+                        description: "The exact property name or a term to search for (wildcard supported) in the description."
+                    }
+                },
+                required: ["searchTerm"]
+            }
+        },
+        {
+            name: "get_business_rule_details",
+            description: "Retrieves metadata for Business Rules matching a specific name or table (e.g., trigger conditions, filter conditions, order, active status, abort action, role conditions). Returns rules ordered by execution order when searching by table. With includeScript, also returns the script body, the filter condition as readable text and the tables / Script Includes the script references. At least one of businessRuleName or tableName must be provided.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    businessRuleName: {
+                        type: "string",
+                        description: "Optional. The exact name of the Business Rule."
+                    },
+                    tableName: {
+                        type: "string",
+                        description: "Optional. The table the Business Rule runs on."
+                    },
+                    includeScript: {
+                        type: "boolean",
+                        description: "Optional. Also return the script source, decoded filter condition and referenced tables / Script Includes (defaults to false)."
+                    }
+                },
+            }
+        },
+        {
+            name: "get_table_execution_timeline",
+            description: "Answers 'what happens when a record of this table is inserted / updated / deleted / queried?'. Lists the server-side logic in the order ServiceNow runs it: before business rules and engines (data policies, assignment rules), the database operation, after business rules and engines (workflows, SLA definitions), then async business rules, flows and script actions on the table's events. Includes logic inherited from parent tables and 'global'.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    tableName: {
+                        type: "string",
+                        description: "The technical name of the table (e.g., 'incident')."
+                    },
+                    operation: {
+                        type: "string",
+                        enum: [...TIMELINE_OPERATIONS],
+                        description: "The database operation to trace."
+                    }
+                },
+                required: ["tableName", "operation"]
+            }
+        },
+        {
+            name: "get_form_logic",
+            description: "Retrieves the client-side logic of a table's form: client scripts (onLoad/onChange/onSubmit with field and script), UI policies with their field actions (visible/mandatory/read-only) and UI actions (form/list placement, condition, client onclick vs server script). Includes logic inherited from parent tables. Useful for debugging how form behaviour interacts.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    tableName: {
+                        type: "string",
+                        description: "The technical name of the table (e.g., 'incident')."
+                    },
+                    view: {
+                        type: "string",
+                        description: "Optional. The form view name (e.g., 'ess'). When given, client scripts and UI policies restricted to other views are left out."
+                    }
+                },
+                required: ["tableName"]
+            }
+        },
+        {
+            name: "get_table_hierarchy",
+            description: "Returns the full extension tree of a table: its ancestors (via super_class) and all descendant tables, each with whether it is extendable, its scope, the number of fields it defines itself and whether it is in the CMDB. Use it before querying tables such as task or cmdb_ci to pick the right level and not miss child-table records.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    tableName: {
+                        type: "string",
+                        description: "The technical name of the table (e.g., 'task')."
+                    }
+                },
+                required: ["tableName"]
+            }
+        },
+        {
+            name: "get_table_relationships",
+            description: "Returns the reference graph around a table: outgoing references (its reference and list fields), incoming references (fields of other tables referencing it), many-to-many relationships and parent/child extension, followed up to a configurable depth. Returns the graph as JSON plus a Mermaid erDiagram. Useful for data-model questions, e.g. around cmdb_ci or task descendants.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    tableName: {
+                        type: "string",
+                        description: "The technical name of the table to start from (e.g., 'cmdb_ci')."
+                    },
+                    depth: {
+                        type: "number",
+                        description: "Optional. Hops to follow from the table (defaults to 1, at most 3)."
+                    },
+                    include: {
+                        type: "array",
+                        items: { type: "string", enum: RELATIONSHIP_KINDS },
+                        description: "Optional. Kinds of relationships to follow (defaults to all)."
+                    }
+                },
+                required: ["tableName"]
+            }
+        },
+        {
+            name: "get_acl_details",
+            description: "Retrieves details for Access Control List (ACL) records matching the specified criteria (name/table, operation, type). Helps understand permissions.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    aclNameOrTable: {
+                        type: "string",
+                        description: "The specific name of the ACL (e.g., 'incident.number') or the table name (e.g., 'incident') to find related ACLs."
+                    },
+                    operation: {
+                        type: "string",
+                        description: "Optional. Filter by operation (e.g., 'read', 'write', 'create', 'delete')."
+                    },
+                    type: {
+                        type: "string",
+                        description: "Optional. Filter by type (e.g., 'record', 'field')."
+                    }
+                },
+                required: ["aclNameOrTable"]
+            }
+        },
+        {
+            name: "query_records",
+            description: "Reads records from a ServiceNow table (e.g., to see what real 'incident' data looks like). Read-only. Filter with an encoded query or structured conditions; fields are validated against the table schema. Credential tables and password fields are never returned, and the number of rows is capped by the server.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    tableName: {
+                        type: "string",
+                        description: "The technical name of the table to query (e.g., 'incident')."
+                    },
+                    query: {
+                        type: "string",
+                        description: "Optional. An encoded query (e.g., 'active=true^priority=1'). Cannot be combined with conditions. Every field it refers to is validated like the fields of conditions; related-list queries, subqueries, keyword searches and javascript: values are not supported."
+                    },
+                    conditions: {
+                        type: "array",
+                        description: "Optional. Structured conditions, all of which must match. Values are escaped, so prefer this over query for user-supplied values.",
+                        items: {
+                            type: "object",
+                            properties: {
+                                field: { type: "string" },
+                                operator: {
+                                    type: "string",
+                                    enum: [...QUERY_OPERATORS]
+                                },
+                                value: {
+                                    description: "The value to compare with; an array for IN / NOT IN; omitted for ISEMPTY / ISNOTEMPTY."
+                                }
+                            },
+                            required: ["field", "operator"]
+                        }
+                    },
+                    fields: {
+                        type: "array",
+                        items: { type: "string" },
+                        description: "Optional. Fields to return, dot-walking allowed (e.g., 'caller_id.name'). Defaults to all fields of the table."
+                    },
+                    orderBy: {
+                        type: "string",
+                        description: "Optional. Field to order by."
+                    },
+                    orderDirection: {
+                        type: "string",
+                        enum: ["asc", "desc"],
+                        description: "Optional. Sort direction for orderBy (defaults to 'asc')."
+                    },
+                    limit: {
+                        type: "number",
+                        description: "Optional. Maximum number of records to return (defaults to 20, capped by the server)."
+                    },
+                    displayValue: {
+                        type: "string",
+                        enum: ["true", "false", "all"],
+                        description: "Optional. 'false' returns raw values (default), 'true' display values, 'all' both."
+                    }
+                },
+                required: ["tableName"]
+            }
+        },
+        {
+            name: "get_table_stats",
+            description: "Aggregates records on the instance via the Aggregate API (/api/now/stats) and returns a compact table (columns + rows) instead of the records, e.g. 'active incidents per assignment group'. Supports record counts, groupBy, avg/min/max/sum of numeric fields and having clauses on the aggregates. Groups are ordered by count (descending) unless orderBy is given.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    tableName: {
+                        type: "string",
+                        description: "The technical name of the table to aggregate (e.g., 'incident')."
+                    },
+                    query: {
+                        type: "string",
+                        description: "Optional. An encoded query selecting the records to aggregate (e.g., 'active=true'). Cannot be combined with conditions; its fields are validated as in query_records."
+                    },
+                    conditions: {
+                        type: "array",
+                        description: "Optional. Structured conditions, all of which must match (see query_records).",
+                        items: {
+                            type: "object",
+                            properties: {
+                                field: { type: "string" },
+                                operator: { type: "string", enum: [...QUERY_OPERATORS] },
+                                value: {}
+                            },
+                            required: ["field", "operator"]
+                        }
+                    },
+                    groupBy: {
+                        type: "array",
+                        items: { type: "string" },
+                        description: "Optional. Fields to group the counts by (e.g., ['assignment_group'])."
+                    },
+                    avgFields: {
+                        type: "array",
+                        items: { type: "string" },
+                        description: "Optional. Numeric fields to average per group."
+                    },
+                    minFields: {
+                        type: "array",
+                        items: { type: "string" },
+                        description: "Optional. Fields to report the minimum of per group."
+                    },
+                    maxFields: {
+                        type: "array",
+                        items: { type: "string" },
+                        description: "Optional. Fields to report the maximum of per group."
+                    },
+                    sumFields: {
+                        type: "array",
+                        items: { type: "string" },
+                        description: "Optional. Numeric fields to sum per group."
+                    },
+                    having: {
+                        type: "array",
+                        description: "Optional. Keeps only groups whose aggregate matches, e.g. { aggregate: 'count', operator: '>', value: 10 }. Evaluated on the instance; use it to narrow a groupBy with many distinct values. Requires groupBy.",
+                        items: {
+                            type: "object",
+                            properties: {
+                                aggregate: { type: "string", enum: ["count", "avg", "min", "max", "sum"] },
+                                field: { type: "string", description: "Required unless aggregate is 'count'." },
+                                operator: { type: "string", enum: ["=", "!=", "<", "<=", ">", ">="] },
+                                value: { type: "number" }
+                            },
+                            required: ["aggregate", "operator", "value"]
+                        }
+                    },
+                    orderBy: {
+                        type: "string",
+                        description: "Optional. Column to order the groups by: 'count', a groupBy field or an aggregate column such as 'avg(priority)'. Defaults to 'count'."
+                    },
+                    orderDirection: {
+                        type: "string",
+                        enum: ["asc", "desc"],
+                        description: "Optional. Defaults to 'desc'."
+                    },
+                    limit: {
+                        type: "number",
+                        description: "Optional. Maximum number of groups to return (defaults to 100, at most 1000); truncated is set when more groups matched."
+                    },
+                    displayValue: {
+                        type: "boolean",
+                        description: "Optional. Group by display values (true, default) or raw values such as sys_ids (false)."
+                    }
+                },
+                required: ["tableName"]
+            }
+        },
+        // Only advertised when explicitly enabled via --enableExecuteScript on a server started with --allowWrites
+        ...(isExecuteScriptEnabled() ? [{
+            name: "execute_script",
+            description: "(HIGH RISK - NON-PRODUCTION ONLY) Executes a server-side GlideScript snippet as a Background Script on the instance and returns the captured gs.print/gs.info output, errors and execution time. Can modify data. The client MUST obtain explicit user confirmation before calling this tool. Refused on instances that look like production; every request is written to an audit log.",
+            inputSchema: {
+                type: "object" as const,
+                properties: {
+                    script: {
+                        type: "string",
+                        description: "The GlideScript code to execute."
+                    },
+                    scope: {
+                        type: "string",
+                        description: "Optional. The application scope to run the script in (defaults to 'global')."
+                    }
+                },
+                required: ["script"]
+            }
+        }] : [])
+    ];
+
+    return {
+        tools: [
             {
-                name: "get_script_include_api",
-                description: "Retrieves the public API methods (function names, parameters, and JSDoc comments if available) for a specific Script Include. Helps understand how to call server-side reusable code.",
+                name: "list_instances",
+                description: "Lists the configured ServiceNow instance profiles (name, URL, auth type, read-only mode) and which one is the default. Pass a profile name as the 'instance' argument of other tools to query that instance, e.g. to compare dev and test.",
                 inputSchema: {
                     type: "object",
-                    properties: {
-                        scriptIncludeName: {
-                            type: "string",
-                            description: "The name of the Script Include (e.g., 'IncidentUtils')."
-                        }
-                    },
-                    required: ["scriptIncludeName"]
+                    properties: {}
                 }
             },
             {
-                name: "find_relevant_scripts",
-                description:
-                    "Searches for existing scripts (Business Rules, Script Includes, Client Scripts) potentially relevant based on table name, keywords, or scope. Helps discover existing logic. At least one of tableName, keywords, or scopeName must be provided.",
+                name: "compare_instances",
+                description: "Compares configuration between two instance profiles (e.g., dev vs test) to find drift. With tableName: dictionary fields, business rules and ACLs of the table. With scopeName: business rules and system properties of the scope. With propertySearchTerm: matching system property values. Reports 'added' (only on target), 'removed' (only on source) and 'changed' (field-level differences). At least one of tableName, scopeName or propertySearchTerm must be provided.",
                 inputSchema: {
                     type: "object",
                     properties: {
-                        tableName: {
+                        sourceInstance: {
                             type: "string",
-                            description: "Optional. The technical name of the table (e.g., 'incident').",
+                            description: "The instance profile to compare from (e.g., 'dev'). See list_instances."
                         },
-                        keywords: {
+                        targetInstance: {
                             type: "string",
-                            description: "Optional. Keywords to search in script names or content.",
+                            description: "The instance profile to compare to (e.g., 'test')."
                         },
-                        scriptType: {
+                        tableName: {
                             type: "string",
-                            description:
-                                "Optional. Filter by script type (e.g., 'Business Rule', 'Script Include', 'Client Script').",
+                            description: "Optional. The table whose fields, business rules and ACLs are compared (e.g., 'incident')."
                         },
                         scopeName: {
                             type: "string",
-                            description:
-                                "Optional. The name or label of the application scope to filter by (e.g., 'Global', 'My Custom App').",
+                            description: "Optional. The technical name or label of the application scope whose business rules and system properties are compared."
                         },
-                    },
-                },
-            },
-            {
-                name: "find_system_properties",
-                description: "Searches system properties (sys_properties) by exact name OR wildcard in description. Returns name, value, description, scope, and last updated date.",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        searchTerm: {
+                        propertySearchTerm: {
                             type: "string",
-                            description: "The exact property name or a term to search for (wildcard supported) in the description."
+                            description: "Optional. Compare system properties matching this exact name or description term."
                         }
                     },
-                    required: ["searchTerm"]
+                    required: ["sourceInstance", "targetInstance"]
                 }
             },
             {
-                name: "get_business_rule_details",
-                description: "Retrieves metadata for Business Rules matching a specific name or table (e.g., trigger conditions, order, active status, conditions). Returns rules ordered by execution order when searching by table. At least one of businessRuleName or tableName must be provided.",
+                name: "clear_cache",
+                description: "Clears cached ServiceNow API responses so the next tool calls fetch fresh data (e.g., after changing a record, script or property on the instance). Returns the number of removed entries and the cache hit/miss statistics per instance.",
                 inputSchema: {
                     type: "object",
                     properties: {
-                        businessRuleName: {
+                        instance: {
                             type: "string",
-                            description: "Optional. The exact name of the Business Rule."
+                            description: "Optional. The instance profile whose cache is cleared. All instances are cleared when omitted."
                         },
                         tableName: {
                             type: "string",
-                            description: "Optional. The table the Business Rule runs on."
+                            description: "Optional. Only clear cached responses from this table (e.g., 'sys_properties')."
                         }
-                    },
+                    }
                 }
             },
             {
-                name: "get_acl_details",
-                description: "Retrieves details for Access Control List (ACL) records matching the specified criteria (name/table, operation, type). Helps understand permissions.",
+                name: "get_cache_stats",
+                description: "Returns the response cache statistics (entries, hits, misses, hit rate) per instance profile.",
                 inputSchema: {
                     type: "object",
-                    properties: {
-                        aclNameOrTable: {
-                            type: "string",
-                            description: "The specific name of the ACL (e.g., 'incident.number') or the table name (e.g., 'incident') to find related ACLs."
-                        },
-                        operation: {
-                            type: "string",
-                            description: "Optional. Filter by operation (e.g., 'read', 'write', 'create', 'delete')."
-                        },
-                        type: {
-                            type: "string",
-                            description: "Optional. Filter by type (e.g., 'record', 'field')."
-                        }
-                    },
-                    required: ["aclNameOrTable"]
+                    properties: {}
                 }
-            }
+            },
+            ...instanceTools.map(withInstanceArgument)
         ]
     };
 });
@@ -161,13 +682,87 @@ server.setRequestHandler(ListToolsRequestSchema, async (): Promise<z.infer<typeo
 server.setRequestHandler(CallToolRequestSchema, async (request): Promise<z.infer<typeof CallToolResultSchema>> => {
     const toolName = request.params.name;
     const args = request.params.arguments;
+    const instance = args?.instance as string | undefined;
 
-    if (toolName === "get_table_schema") {
+    if (toolName === "list_instances") {
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: JSON.stringify(listInstances(), null, 2),
+                }
+            ]
+        };
+    } else if (toolName === "clear_cache") {
+        const tableName = args?.tableName as string | undefined;
+        const names = instance ? [instance] : listInstances().map(info => info.name);
+
+        const results = names.map(name => {
+            const client = getAuthenticatedClient(name);
+            const removedEntries = client.clearCache(tableName);
+            return { instance: name, removedEntries, stats: client.getCacheStats() };
+        });
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: JSON.stringify(results, null, 2)
+                }
+            ]
+        };
+    } else if (toolName === "get_cache_stats") {
+        const results = listInstances().map(info => ({
+            instance: info.name,
+            stats: getAuthenticatedClient(info.name).getCacheStats()
+        }));
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: JSON.stringify(results, null, 2)
+                }
+            ]
+        };
+    } else if (toolName === "compare_instances") {
+        const sourceInstance = args?.sourceInstance as string;
+        const targetInstance = args?.targetInstance as string;
+        const tableName = args?.tableName as string | undefined;
+        const scopeName = args?.scopeName as string | undefined;
+        const propertySearchTerm = args?.propertySearchTerm as string | undefined;
+
+        if (!sourceInstance || !targetInstance) {
+            throw new Error("Missing required arguments: sourceInstance and targetInstance for compare_instances");
+        }
+
+        try {
+            const result = await compareInstances({ sourceInstance, targetInstance, tableName, scopeName, propertySearchTerm });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(result, null, 2)
+                    }
+                ]
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error comparing instances: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
+    } else if (toolName === "get_table_schema") {
         const tableName = args?.tableName as string;
         if (!tableName) {
             throw new Error("Missing required argument: tableName for get_table_schema");
         }
-        const schema: TableSchema | null = await getTableSchema(tableName);
+        const schema: TableSchema | null = await getTableSchema(tableName, instance);
 
         if (schema === null) {
             return {
@@ -196,7 +791,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<z.infer
             throw new Error("Missing required arguments: tableName and fieldName for get_field_choices");
         }
 
-        const choices: FieldChoice[] | null = await getFieldChoices(tableName, fieldName);
+        const choices = await getFieldChoices(tableName, fieldName, instance);
 
         if (choices === null) {
             // Error occurred during fetching
@@ -208,7 +803,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<z.infer
                     }
                 ]
             };
-        } else if (choices.length === 0) {
+        } else if (choices.records.length === 0) {
             // No choices found
             return {
                 content: [
@@ -226,7 +821,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<z.infer
             content: [
                 {
                     type: "text",
-                    text: JSON.stringify(choices, null, 2),
+                    text: formatPaginated(choices),
                 }
             ]
         };
@@ -238,7 +833,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<z.infer
         }
 
         // Call the tool function
-        const result = await getScriptIncludeApi(scriptIncludeName);
+        const result = await getScriptIncludeApi(scriptIncludeName, instance);
 
         // Format the result
         return {
@@ -249,12 +844,140 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<z.infer
                 }
             ]
         };
+    } else if (toolName === "get_script_dependencies") {
+        const name = args?.name as string | undefined;
+        const sysId = args?.sysId as string | undefined;
+
+        if (!name && !sysId) {
+            throw new Error("Missing required argument: name or sysId for get_script_dependencies");
+        }
+
+        try {
+            const dependencies = await getScriptDependencies({
+                name,
+                sysId,
+                scriptType: args?.scriptType as string | undefined,
+                depth: args?.depth as number | undefined,
+                instance
+            });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(dependencies, null, 2)
+                    }
+                ]
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error resolving script dependencies: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
+    } else if (toolName === "find_callers") {
+        const scriptIncludeName = args?.scriptIncludeName as string;
+
+        if (!scriptIncludeName) {
+            throw new Error("Missing required argument: scriptIncludeName for find_callers");
+        }
+
+        try {
+            const callers = await findCallers({
+                scriptIncludeName,
+                method: args?.method as string | undefined,
+                scriptType: args?.scriptType as string | undefined,
+                instance
+            });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(callers, null, 2)
+                    }
+                ]
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error finding callers: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
+    } else if (toolName === "validate_script") {
+        const script = args?.script as string;
+        const tableName = args?.tableName as string | undefined;
+
+        if (!script) {
+            throw new Error("Missing required argument: script for validate_script");
+        }
+
+        try {
+            const validation = await validateScript({ script, tableName, instance });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(validation, null, 2)
+                    }
+                ]
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error validating script: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
+    } else if (toolName === "generate_typings") {
+        const tables = args?.tables as string[] | undefined;
+        const scriptIncludes = args?.scriptIncludes as string[] | undefined;
+
+        if (!tables?.length && !scriptIncludes?.length) {
+            throw new Error("Missing required arguments: At least one of tables or scriptIncludes must be provided for generate_typings");
+        }
+
+        try {
+            const typings = await generateTypings({ tables, scriptIncludes, instance });
+            return {
+                content: [
+                    ...typings.files.map(file => ({
+                        type: "text" as const,
+                        text: `// File: ${file.name}\n${file.content}`
+                    })),
+                    ...(typings.warnings.length > 0 ? [{ type: "text" as const, text: `Warnings:\n${typings.warnings.join('\n')}` }] : [])
+                ]
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error generating typings: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
     } else if (toolName === "find_relevant_scripts") {
         // Extract arguments
         const tableName = args?.tableName as string | undefined;
         const keywords = args?.keywords as string | undefined;
         const scriptType = args?.scriptType as string | undefined;
         const scopeName = args?.scopeName as string | undefined;
+        const maxResults = args?.maxResults as number | undefined;
 
         // Validate: At least one criteria must be provided
         if (!tableName && !keywords && !scopeName) {
@@ -266,7 +989,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<z.infer
                 tableName,
                 keywords,
                 scriptType,
-                scopeName
+                scopeName,
+                maxResults,
+                instance
             });
 
         // Format and return results
@@ -274,18 +999,56 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<z.infer
             content: [
                 {
                     type: "text",
-                    text: JSON.stringify(results, null, 2)
+                    text: formatPaginated(results)
                 }
             ]
         };
+    } else if (toolName === "search_code") {
+        const keywords = args?.keywords as string;
+
+        if (!keywords) {
+            throw new Error("Missing required argument: keywords for search_code");
+        }
+
+        try {
+            const results = await searchCode({
+                keywords,
+                regex: args?.regex as string | undefined,
+                caseSensitive: args?.caseSensitive as boolean | undefined,
+                tableName: args?.tableName as string | undefined,
+                scriptType: args?.scriptType as string | undefined,
+                scopeName: args?.scopeName as string | undefined,
+                contextLines: args?.contextLines as number | undefined,
+                maxResults: args?.maxResults as number | undefined,
+                instance
+            });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(results, null, 2)
+                    }
+                ]
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error searching code: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
     } else if (toolName === "find_system_properties") {
         const searchTerm = args?.searchTerm as string;
         if (!searchTerm) {
             throw new Error("Missing required argument: searchTerm for find_system_properties");
         }
-        const results = await findSystemProperties(searchTerm);
-        if (results && results.length > 0) {
-            return { content: [ { type: "text", text: JSON.stringify(results, null, 2) } ] };
+        const results = await findSystemProperties(searchTerm, instance);
+        if (results && results.records.length > 0) {
+            return { content: [ { type: "text", text: formatPaginated(results) } ] };
         } else {
             return { content: [ { type: "text", text: `No system properties found matching '${searchTerm}'.` } ] };
         }
@@ -300,15 +1063,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<z.infer
 
         try {
             // Call the renamed implementation function
-            const results = await findBusinessRules({ businessRuleName, tableName });
+            const results = await findBusinessRules({ businessRuleName, tableName, includeScript: args?.includeScript === true, instance });
 
-            if (results && results.length > 0) {
+            if (results && results.records.length > 0) {
                 // Format and return the array of details
                 return {
                     content: [
                         {
                             type: "text",
-                            text: JSON.stringify(results, null, 2)
+                            text: formatPaginated(results)
                         }
                     ]
                 };
@@ -338,6 +1101,129 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<z.infer
                 ]
             };
         }
+    } else if (toolName === "get_table_execution_timeline") {
+        const tableName = args?.tableName as string;
+        const operation = args?.operation as TimelineOperation;
+
+        if (!tableName || !operation) {
+            throw new Error("Missing required arguments: tableName and operation for get_table_execution_timeline");
+        }
+
+        try {
+            const timeline = await getTableExecutionTimeline({ tableName, operation, instance });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(timeline, null, 2)
+                    }
+                ]
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error building execution timeline: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
+    } else if (toolName === "get_form_logic") {
+        const tableName = args?.tableName as string;
+        const view = args?.view as string | undefined;
+
+        if (!tableName) {
+            throw new Error("Missing required argument: tableName for get_form_logic");
+        }
+
+        try {
+            const formLogic = await getFormLogic({ tableName, view, instance });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(formLogic, null, 2)
+                    }
+                ]
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error reading form logic: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
+    } else if (toolName === "get_table_hierarchy") {
+        const tableName = args?.tableName as string;
+
+        if (!tableName) {
+            throw new Error("Missing required argument: tableName for get_table_hierarchy");
+        }
+
+        try {
+            const hierarchy = await getTableHierarchy({ tableName, instance });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(hierarchy, null, 2)
+                    }
+                ]
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error reading table hierarchy: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
+    } else if (toolName === "get_table_relationships") {
+        const tableName = args?.tableName as string;
+
+        if (!tableName) {
+            throw new Error("Missing required argument: tableName for get_table_relationships");
+        }
+
+        try {
+            const { mermaid, ...graph } = await getTableRelationships({
+                tableName,
+                depth: args?.depth as number | undefined,
+                include: args?.include as RelationshipKind[] | undefined,
+                instance
+            });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(graph, null, 2)
+                    },
+                    {
+                        type: "text",
+                        text: "```mermaid\n" + mermaid + "\n```"
+                    }
+                ]
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error reading table relationships: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
     } else if (toolName === "get_acl_details") {
         const aclNameOrTable = args?.aclNameOrTable as string;
         const operation = args?.operation as string | undefined;
@@ -349,15 +1235,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<z.infer
 
         try {
             // Call the implementation function
-            const results = await getAclDetails({ aclNameOrTable, operation, type });
+            const results = await getAclDetails({ aclNameOrTable, operation, type, instance });
 
-            if (results && results.length > 0) {
+            if (results && results.records.length > 0) {
                 // Format and return the array of details
                 return {
                     content: [
                         {
                             type: "text",
-                            text: JSON.stringify(results, null, 2)
+                            text: formatPaginated(results)
                         }
                     ]
                 };
@@ -387,28 +1273,176 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<z.infer
                 ]
             };
         }
+    } else if (toolName === "query_records") {
+        const tableName = args?.tableName as string;
+
+        if (!tableName) {
+            throw new Error("Missing required argument: tableName for query_records");
+        }
+
+        try {
+            const result = await queryRecords({
+                tableName,
+                query: args?.query as string | undefined,
+                conditions: args?.conditions as QueryCondition[] | undefined,
+                fields: args?.fields as string[] | undefined,
+                orderBy: args?.orderBy as string | undefined,
+                orderDirection: args?.orderDirection as 'asc' | 'desc' | undefined,
+                limit: args?.limit as number | undefined,
+                displayValue: args?.displayValue as DisplayValueMode | undefined,
+                instance
+            });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(result, null, 2)
+                    }
+                ]
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error querying records: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
+    } else if (toolName === "get_table_stats") {
+        const tableName = args?.tableName as string;
+
+        if (!tableName) {
+            throw new Error("Missing required argument: tableName for get_table_stats");
+        }
+
+        try {
+            const result = await getTableStats({
+                tableName,
+                query: args?.query as string | undefined,
+                conditions: args?.conditions as QueryCondition[] | undefined,
+                groupBy: args?.groupBy as string[] | undefined,
+                avgFields: args?.avgFields as string[] | undefined,
+                minFields: args?.minFields as string[] | undefined,
+                maxFields: args?.maxFields as string[] | undefined,
+                sumFields: args?.sumFields as string[] | undefined,
+                having: args?.having as HavingClause[] | undefined,
+                orderBy: args?.orderBy as string | undefined,
+                orderDirection: args?.orderDirection as 'asc' | 'desc' | undefined,
+                limit: args?.limit as number | undefined,
+                displayValue: args?.displayValue as boolean | undefined,
+                instance
+            });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(result, null, 2)
+                    }
+                ]
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error aggregating records: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
+    } else if (toolName === "execute_script") {
+        const script = args?.script as string;
+        const scope = args?.scope as string | undefined;
+
+        if (!script) {
+            throw new Error("Missing required argument: script for execute_script");
+        }
+
+        try {
+            const result = await executeScript({ script, scope, instance });
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(result, null, 2)
+                    }
+                ],
+                isError: result.error !== null
+            };
+        } catch (error: any) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error executing script: ${error.message}`
+                    }
+                ],
+                isError: true
+            };
+        }
     }
 
     // If tool name doesn't match known tools
     throw new Error(`Tool not found: ${toolName}`);
 });
 
-export async function main(connectionString: string) {
-    if (!connectionString) {
-        throw new Error("Connection string is required for server startup.");
+// A named connection profile registered at startup
+export interface InstanceProfile {
+    name: string;
+    connectionString: string; // Instance URL, optionally with basic auth credentials
+    auth?: Omit<InitializeServiceOptions, 'readOnly'>; // Auth type and credentials (defaults to Basic auth)
+}
+
+export interface ServerOptions {
+    readOnly?: boolean; // Block all write requests to the instance (defaults to true)
+    defaultInstance?: string; // Profile used when a tool call does not name one (defaults to the first profile)
+    cache?: CacheOptions; // GET response caching, shared settings for all profiles
+    maxRecords?: number; // Cap on records fetched per query across all pages (defaults to DEFAULT_MAX_RECORDS)
+    queryRecords?: QueryRecordsOptions; // Table allow/deny lists and row cap of query_records
+    executeScript?: ExecuteScriptOptions;
+}
+
+/**
+ * Initializes the ServiceNow clients and tool settings; shared by the MCP server and CLI subcommands.
+ */
+export function initializeInstances(instances: InstanceProfile[], options: ServerOptions = {}) {
+    if (instances.length === 0) {
+        throw new Error("At least one instance profile is required for server startup.");
     }
     try {
-        initializeService(connectionString);
+        for (const profile of instances) {
+            initializeService(profile.connectionString, { ...profile.auth, readOnly: options.readOnly, cache: options.cache, maxRecords: options.maxRecords }, profile.name);
+        }
+        if (options.defaultInstance) {
+            setDefaultInstance(options.defaultInstance);
+        }
         // Comment out success log
         // console.error("ServiceNowService initialized successfully.");
     } catch (error: any) {
-        // Comment out fatal error log (though maybe keep this one? Depends on desired behavior)
-        // console.error("FATAL: Failed to initialize ServiceNowService:", error.message);
+        // Initialization errors name missing settings only, never credential values
+        console.error("FATAL: Failed to initialize ServiceNowService:", error.message);
         process.exit(1);
     }
 
+    configureQueryRecords(options.queryRecords || {});
+    // execute_script needs both switches: it is neither listed nor callable on a read-only server
+    const executeScriptOptions = options.executeScript || { enabled: false };
+    const readOnly = options.readOnly ?? true;
+    if (executeScriptOptions.enabled && readOnly) {
+        console.error("execute_script stays disabled: it requires --allowWrites as well as --enableExecuteScript.");
+    }
+    configureExecuteScript({ ...executeScriptOptions, enabled: executeScriptOptions.enabled && !readOnly });
+}
+
+export async function main(instances: InstanceProfile[], options: ServerOptions = {}) {
+    initializeInstances(instances, options);
+
     const transport = new StdioServerTransport();
     await server.connect(transport);
     // Comment out server running log
     // console.error("SN MCP Server running on stdio");
-}
\ No newline at end of file
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { describeEncodedQuery, getEncodedQueryFields, splitEncodedQuery } from './encodedQuery.js';
+
+describe('splitEncodedQuery', () => {
+    it('splits on single carets and keeps escaped carets', () => {
+        expect(splitEncodedQuery('active=true^name=a^^b^ORname=c')).toEqual(['active=true', 'name=a^b', 'ORname=c']);
+    });
+});
+
+describe('describeEncodedQuery', () => {
+    it('describes AND, OR, NQ and ordering', () => {
+        expect(describeEncodedQuery('active=true^priority=1^ORpriority=2^NQstateIN1,2^ORDERBYDESCnumber'))
+            .toBe('[active is true AND (priority is 1 OR priority is 2)] OR [state is one of 1,2] ordered by number descending');
+    });
+});
+
+describe('getEncodedQueryFields', () => {
+    it('lists condition, dot-walked and ordering fields', () => {
+        expect(getEncodedQueryFields('active=true^caller_id.nameSTARTSWITHa^ORpriorityIN1,2^NQstateISEMPTY^ORDERBYDESCsys_updated_on'))
+            .toEqual(['active', 'caller_id.name', 'priority', 'state', 'sys_updated_on']);
+    });
+
+    it('includes fields used as comparison values', () => {
+        expect(getEncodedQueryFields('opened_bySAMEAScaller_id')).toEqual(['opened_by', 'caller_id']);
+        expect(getEncodedQueryFields('resolved_atMORETHANopened_at@hour@after@4')).toEqual(['resolved_at', 'opened_at']);
+    });
+
+    it('does not read escaped carets in values as new terms', () => {
+        expect(getEncodedQueryFields('short_descriptionLIKEa^^ORuser_password=x')).toEqual(['short_description']);
+    });
+
+    it('refuses terms it cannot attribute to fields', () => {
+        expect(() => getEncodedQueryFields('RLQUERYsys_user_has_password.user,>=1^ENDRLQUERY')).toThrow(/Unsupported term/);
+        expect(() => getEncodedQueryFields('123TEXTQUERY321=secret')).toThrow(/Unsupported term/);
+        expect(() => getEncodedQueryFields('nameUNKNOWNOPx')).toThrow(/Unsupported term/);
+        expect(() => getEncodedQueryFields('ORDERBYname^ORsys_id')).toThrow(/Unsupported term/);
+    });
+
+    it('refuses values the instance would evaluate as script', () => {
+        expect(() => getEncodedQueryFields('sys_idINjavascript:new Foo().getIds()')).toThrow(/javascript:/);
+        expect(() => getEncodedQueryFields('sys_idIN1,2, JavaScript:gs.getUserID()')).toThrow(/javascript:/);
+        expect(() => getEncodedQueryFields('opened_atBETWEEN2024-01-01@javascript:gs.endOfToday()')).toThrow(/javascript:/);
+        expect(getEncodedQueryFields('short_descriptionLIKEjava script')).toEqual(['short_description']);
+    });
+});
@@ -0,0 +1,170 @@
+import { isScriptValue } from './queryBuilder.js';
+
+// Operators that appear in condition-builder filters, checked in order: an operator is listed before any
+// shorter operator it starts with (e.g., <= before <)
+const DESCRIBED_OPERATORS: [string, string][] = [
+    ['ISNOTEMPTY', 'is not empty'],
+    ['ISEMPTY', 'is empty'],
+    ['EMPTYSTRING', 'is empty string'],
+    ['ANYTHING', 'is anything'],
+    ['VALCHANGES', 'changes'],
+    ['CHANGESFROM', 'changes from'],
+    ['CHANGESTO', 'changes to'],
+    ['NOT LIKE', 'does not contain'],
+    ['NOT IN', 'is not one of'],
+    ['NSAMEAS', 'is not the same as'],
+    ['SAMEAS', 'is the same as'],
+    ['GT_OR_EQUALS_FIELD', 'is at least field'],
+    ['LT_OR_EQUALS_FIELD', 'is at most field'],
+    ['GT_FIELD', 'is greater than field'],
+    ['LT_FIELD', 'is less than field'],
+    ['MORETHAN', 'is more than'],
+    ['LESSTHAN', 'is less than'],
+    ['STARTSWITH', 'starts with'],
+    ['ENDSWITH', 'ends with'],
+    ['BETWEEN', 'is between'],
+    ['DYNAMIC', 'is (dynamic)'],
+    ['NOTON', 'is not on'],
+    ['ON', 'is on'],
+    ['LIKE', 'contains'],
+    ['IN', 'is one of'],
+    ['!=', 'is not'],
+    ['<=', 'is at most'],
+    ['>=', 'is at least'],
+    ['<', 'is less than'],
+    ['>', 'is greater than'],
+    ['=', 'is'],
+];
+
+const VALUELESS_DESCRIBED_OPERATORS = ['ISNOTEMPTY', 'ISEMPTY', 'EMPTYSTRING', 'ANYTHING', 'VALCHANGES'];
+
+// Operators whose value starts with another field of the table rather than a literal
+// (MORETHAN / LESSTHAN take "<field>@<unit>@<before|after>@<amount>")
+const FIELD_VALUE_OPERATORS = ['NSAMEAS', 'SAMEAS', 'GT_OR_EQUALS_FIELD', 'LT_OR_EQUALS_FIELD', 'GT_FIELD', 'LT_FIELD', 'MORETHAN', 'LESSTHAN'];
+
+const CONDITION_FIELD_REGEX = /^[a-z0-9_]+(\.[a-z0-9_]+)*/;
+
+/**
+ * Splits an encoded query on single carets; "^^" is kept as a literal caret.
+ */
+export function splitEncodedQuery(query: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    for (let i = 0; i < query.length; i++) {
+        if (query[i] === '^' && query[i + 1] === '^') {
+            current += '^';
+            i++;
+        } else if (query[i] === '^') {
+            parts.push(current);
+            current = '';
+        } else {
+            current += query[i];
+        }
+    }
+    parts.push(current);
+    return parts;
+}
+
+function describeCondition(condition: string): string {
+    const field = CONDITION_FIELD_REGEX.exec(condition)?.[0];
+    if (!field) {
+        return condition;
+    }
+    const rest = condition.slice(field.length);
+    const operator = DESCRIBED_OPERATORS.find(([op]) => rest.startsWith(op));
+    if (!operator) {
+        return condition;
+    }
+    const value = rest.slice(operator[0].length);
+    if (VALUELESS_DESCRIBED_OPERATORS.includes(operator[0]) && value === '') {
+        return `${field} ${operator[1]}`;
+    }
+    return `${field} ${operator[1]} ${value === '' ? "''" : value}`;
+}
+
+/**
+ * Turns an encoded query (e.g., a business rule's filter_condition) into readable text:
+ *   "active=true^priority=1^ORpriority=2" -> "active is true AND (priority is 1 OR priority is 2)"
+ * Conditions the parser does not recognize are kept as-is.
+ */
+export function describeEncodedQuery(query: string): string {
+    const queries: string[][][] = [[]];
+    const ordering: string[] = [];
+
+    for (const part of splitEncodedQuery(query)) {
+        const current = queries[queries.length - 1];
+        if (part === '' || part === 'EQ') {
+            continue;
+        } else if (part.startsWith('ORDERBYDESC')) {
+            ordering.push(`${part.slice('ORDERBYDESC'.length)} descending`);
+        } else if (part.startsWith('ORDERBY')) {
+            ordering.push(part.slice('ORDERBY'.length));
+        } else if (part.startsWith('NQ')) {
+            queries.push([[describeCondition(part.slice(2))]]);
+        } else if (part.startsWith('OR') && current.length > 0) {
+            current[current.length - 1].push(describeCondition(part.slice(2)));
+        } else {
+            current.push([describeCondition(part)]);
+        }
+    }
+
+    const described = queries
+        .filter(groups => groups.length > 0)
+        .map(groups => groups
+            .map(group => (group.length > 1 ? `(${group.join(' OR ')})` : group[0]))
+            .join(' AND '));
+
+    let text = described.length > 1 ? described.map(q => `[${q}]`).join(' OR ') : (described[0] || '');
+    if (ordering.length > 0) {
+        text += `${text ? ' ' : ''}ordered by ${ordering.join(', ')}`;
+    }
+    return text;
+}
+
+/**
+ * Lists the fields an encoded query refers to: condition fields (dot-walked paths included), fields compared
+ * against (SAMEAS, GT_FIELD, ...) and ordering fields. Throws on any term it cannot attribute to fields
+ * (RLQUERY, SUBQUERY, keyword searches, unknown operators) or whose value is a script (javascript:), so a
+ * caller validating the fields never lets an unchecked term through.
+ */
+export function getEncodedQueryFields(query: string): string[] {
+    const fields = new Set<string>();
+    for (let part of splitEncodedQuery(query)) {
+        if (part === '' || part === 'EQ') {
+            continue;
+        }
+        if (part.startsWith('ORDERBYDESC') || part.startsWith('ORDERBY')) {
+            const field = part.slice(part.startsWith('ORDERBYDESC') ? 'ORDERBYDESC'.length : 'ORDERBY'.length);
+            if (CONDITION_FIELD_REGEX.exec(field)?.[0] !== field) {
+                throw new Error(`Unsupported ordering in encoded query: '${part}'.`);
+            }
+            fields.add(field);
+            continue;
+        }
+        if (part.startsWith('NQ') || part.startsWith('OR')) {
+            part = part.slice(2);
+        }
+
+        const field = CONDITION_FIELD_REGEX.exec(part)?.[0];
+        const operator = field ? DESCRIBED_OPERATORS.find(([op]) => part.slice(field.length).startsWith(op))?.[0] : undefined;
+        if (!field || !operator) {
+            throw new Error(`Unsupported term in encoded query: '${part}'.`);
+        }
+        fields.add(field);
+
+        // Lists (IN) and ranges (BETWEEN a@b) hold several values, any of which the instance may evaluate
+        const value = part.slice(field.length + operator.length);
+        if (value.split(/[,@]/).some(isScriptValue)) {
+            throw new Error(`Unsupported term in encoded query: '${part}'. Values starting with 'javascript:' would run as a script on the instance.`);
+        }
+
+        if (FIELD_VALUE_OPERATORS.includes(operator)) {
+            const valueField = value.split('@')[0];
+            if (CONDITION_FIELD_REGEX.exec(valueField)?.[0] !== valueField) {
+                throw new Error(`Unsupported term in encoded query: '${part}'.`);
+            }
+            fields.add(valueField);
+        }
+    }
+    return Array.from(fields);
+}
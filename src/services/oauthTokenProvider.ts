@@ -0,0 +1,125 @@
+import axios from 'axios';
+
+export type OAuthGrantType = 'password' | 'client_credentials';
+
+interface OAuthTokenProviderOptions {
+    instanceUrl: string;
+    grantType: OAuthGrantType;
+    clientId: string;
+    clientSecret: string;
+    username?: string; // Required for the password grant
+    password?: string; // Required for the password grant
+}
+
+// Response body of /oauth_token.do
+interface OAuthTokenResponse {
+    access_token: string;
+    refresh_token?: string;
+    expires_in?: number | string; // Seconds
+    token_type?: string;
+}
+
+// Refresh this long before the token actually expires to avoid racing the instance clock
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// ServiceNow's default access token lifespan, used when the instance does not report expires_in
+const DEFAULT_EXPIRES_IN_SECONDS = 1800;
+
+/**
+ * Obtains and caches OAuth 2.0 access tokens from a ServiceNow instance's /oauth_token.do endpoint.
+ * Tokens are refreshed shortly before they expire, using the refresh token when one was issued.
+ */
+export class OAuthTokenProvider {
+    private options: OAuthTokenProviderOptions;
+    private accessToken: string | null = null;
+    private refreshToken: string | null = null;
+    private expiresAt = 0;
+    private pendingRequest: Promise<string> | null = null;
+
+    constructor(options: OAuthTokenProviderOptions) {
+        if (options.grantType === 'password' && (!options.username || !options.password)) {
+            throw new Error('OAuth password grant requires a username and password.');
+        }
+        this.options = options;
+    }
+
+    /**
+     * Returns a valid access token, requesting or refreshing one if needed.
+     * Concurrent callers share a single in-flight token request.
+     */
+    async getAccessToken(): Promise<string> {
+        if (this.accessToken && Date.now() < this.expiresAt - EXPIRY_MARGIN_MS) {
+            return this.accessToken;
+        }
+        if (!this.pendingRequest) {
+            this.pendingRequest = this.fetchToken().finally(() => {
+                this.pendingRequest = null;
+            });
+        }
+        return this.pendingRequest;
+    }
+
+    /**
+     * Discards the cached access token (e.g., after a 401) so the next call fetches a new one.
+     */
+    invalidate(): void {
+        this.accessToken = null;
+        this.expiresAt = 0;
+    }
+
+    private async fetchToken(): Promise<string> {
+        if (this.refreshToken) {
+            try {
+                return await this.requestToken({ grant_type: 'refresh_token', refresh_token: this.refreshToken });
+            } catch (error) {
+                // Refresh token expired or revoked; fall back to the configured grant
+                this.refreshToken = null;
+            }
+        }
+
+        const { grantType, username, password } = this.options;
+        const grantParams: Record<string, string> = grantType === 'password'
+            ? { grant_type: 'password', username: username!, password: password! }
+            : { grant_type: 'client_credentials' };
+
+        return this.requestToken(grantParams);
+    }
+
+    private async requestToken(grantParams: Record<string, string>): Promise<string> {
+        const form = new URLSearchParams({
+            ...grantParams,
+            client_id: this.options.clientId,
+            client_secret: this.options.clientSecret,
+        });
+
+        try {
+            const response = await axios.post<OAuthTokenResponse>(`${this.options.instanceUrl}/oauth_token.do`, form.toString(), {
+                headers: {
+                    'Accept': 'application/json',
+                    'Content-Type': 'application/x-www-form-urlencoded',
+                },
+            });
+
+            const { access_token, refresh_token, expires_in } = response.data;
+            if (!access_token) {
+                throw new Error('Token response did not contain an access_token.');
+            }
+
+            const expiresInSeconds = Number(expires_in) || DEFAULT_EXPIRES_IN_SECONDS;
+            this.accessToken = access_token;
+            this.expiresAt = Date.now() + expiresInSeconds * 1000;
+            if (refresh_token) {
+                this.refreshToken = refresh_token;
+            }
+            return access_token;
+        } catch (error) {
+            // Never include the request body here: it contains the client secret and password
+            if (axios.isAxiosError(error) && error.response) {
+                const data = error.response.data;
+                const message = data?.error_description || data?.error || error.message;
+                throw new Error(`OAuth token request failed (${error.response.status}): ${message}`);
+            }
+            throw new Error(`OAuth token request failed: ${(error as Error).message}`);
+        }
+    }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { QueryBuilder, escapeQueryValue } from './queryBuilder.js';
+import { splitEncodedQuery } from './encodedQuery.js';
+
+describe('escapeQueryValue', () => {
+    it('doubles every caret', () => {
+        expect(escapeQueryValue('a^b^^c')).toBe('a^^b^^^^c');
+    });
+
+    it('leaves values without carets untouched', () => {
+        expect(escapeQueryValue('plain value')).toBe('plain value');
+        expect(escapeQueryValue(42)).toBe('42');
+        expect(escapeQueryValue(true)).toBe('true');
+    });
+});
+
+describe('QueryBuilder', () => {
+    it('joins conditions, OR groups, new queries and ordering', () => {
+        const query = new QueryBuilder()
+            .where('active', '=', true)
+            .where('name', 'LIKE', 'foo')
+            .orWhere('description', 'LIKE', 'foo')
+            .newQuery()
+            .where('priority', 'IN', [1, 2])
+            .orderByDesc('sys_updated_on')
+            .build();
+        expect(query).toBe('active=true^nameLIKEfoo^ORdescriptionLIKEfoo^NQpriorityIN1,2^ORDERBYDESCsys_updated_on');
+    });
+
+    describe('injection through values', () => {
+        // Each value must come back as a single condition when the query is split the way the instance reads it
+        const conditionsOf = (query: string) => splitEncodedQuery(query);
+
+        it('keeps a caret inside the condition', () => {
+            const query = new QueryBuilder().where('name', '=', 'a^active=false').build();
+            expect(query).toBe('name=a^^active=false');
+            expect(conditionsOf(query)).toEqual(['name=a^active=false']);
+        });
+
+        it('does not let ^OR add an alternative', () => {
+            const query = new QueryBuilder().where('active', '=', true).where('name', 'LIKE', 'x^ORsys_id!=').build();
+            expect(query).toBe('active=true^nameLIKEx^^ORsys_id!=');
+            expect(conditionsOf(query)).toEqual(['active=true', 'nameLIKEx^ORsys_id!=']);
+        });
+
+        it('does not let ^NQ start a new query', () => {
+            const query = new QueryBuilder().where('active', '=', true).where('name', '=', 'x^NQsys_idISNOTEMPTY').build();
+            expect(query).toBe('active=true^name=x^^NQsys_idISNOTEMPTY');
+            expect(conditionsOf(query)).toEqual(['active=true', 'name=x^NQsys_idISNOTEMPTY']);
+        });
+
+        it('does not let ^ORDERBY change the ordering', () => {
+            const query = new QueryBuilder().where('name', 'STARTSWITH', 'x^ORDERBYname').build();
+            expect(conditionsOf(query)).toEqual(['nameSTARTSWITHx^ORDERBYname']);
+        });
+
+        it('refuses values the instance would evaluate as script', () => {
+            expect(() => new QueryBuilder().where('caller_id', '=', 'javascript:gs.getUserID()').build()).toThrow(/javascript:/);
+            expect(() => new QueryBuilder().where('sys_id', 'IN', ['a', ' JAVASCRIPT:new Foo().ids()']).build()).toThrow(/javascript:/);
+            expect(new QueryBuilder().where('script', 'LIKE', 'var x = "javascript:"').build()).toBe('scriptLIKEvar x = "javascript:"');
+        });
+
+        it('escapes carets inside IN lists', () => {
+            const query = new QueryBuilder().where('state', 'IN', ['1', '2^ORactive=false']).build();
+            expect(query).toBe('stateIN1,2^^ORactive=false');
+            expect(conditionsOf(query)).toEqual(['stateIN1,2^ORactive=false']);
+        });
+
+        it('rejects a comma inside an IN list value', () => {
+            expect(() => new QueryBuilder().where('name', 'IN', ['a', 'b,c'])).toThrow(/cannot contain commas/);
+            expect(() => new QueryBuilder().where('name', 'NOT IN', 'a,b')).toThrow(/cannot contain commas/);
+        });
+
+        it('allows commas outside IN lists', () => {
+            expect(new QueryBuilder().where('short_description', 'LIKE', 'a,b').build()).toBe('short_descriptionLIKEa,b');
+        });
+
+        it('keeps newlines inside the value', () => {
+            const query = new QueryBuilder().where('name', '=', 'line one\n^ORactive=false\r\nline two').build();
+            expect(query).toBe('name=line one\n^^ORactive=false\r\nline two');
+            expect(conditionsOf(query)).toEqual(['name=line one\n^ORactive=false\r\nline two']);
+        });
+    });
+
+    describe('injection through field names and operators', () => {
+        it('rejects field names with query syntax', () => {
+            expect(() => new QueryBuilder().where('name^ORactive', '=', 'x')).toThrow(/Invalid field name/);
+            expect(() => new QueryBuilder().where('name\n', '=', 'x')).toThrow(/Invalid field name/);
+            expect(() => new QueryBuilder().orderBy('name^NQactive=true')).toThrow(/Invalid field name/);
+        });
+
+        it('rejects unknown operators', () => {
+            expect(() => new QueryBuilder().where('name', '=^OR' as any, 'x')).toThrow(/Invalid query operator/);
+        });
+    });
+
+    it('requires a value for operators that take one', () => {
+        expect(() => new QueryBuilder().where('name', '=')).toThrow(/requires a value/);
+        expect(new QueryBuilder().where('name', 'ISEMPTY').build()).toBe('nameISEMPTY');
+    });
+
+    it('requires a preceding condition for orWhere and newQuery', () => {
+        expect(() => new QueryBuilder().orWhere('name', '=', 'x')).toThrow(/preceding condition/);
+        expect(() => new QueryBuilder().newQuery()).toThrow(/preceding condition/);
+    });
+});
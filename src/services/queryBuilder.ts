@@ -0,0 +1,177 @@
+// Encoded query operators supported by the builder. ISEMPTY / ISNOTEMPTY take no value; IN / NOT IN take a list.
+export const QUERY_OPERATORS = [
+    '=',
+    '!=',
+    '<',
+    '<=',
+    '>',
+    '>=',
+    'LIKE',
+    'NOT LIKE',
+    'STARTSWITH',
+    'ENDSWITH',
+    'IN',
+    'NOT IN',
+    'ISEMPTY',
+    'ISNOTEMPTY',
+] as const;
+
+export type QueryOperator = typeof QUERY_OPERATORS[number];
+
+export type QueryValue = string | number | boolean;
+
+export interface QueryCondition {
+    field: string; // Field name, optionally dot-walked (e.g., sys_scope.scope)
+    operator: QueryOperator;
+    value?: QueryValue | QueryValue[]; // Omitted for ISEMPTY / ISNOTEMPTY; an array for IN / NOT IN
+}
+
+// Letters, digits and underscores, optionally dot-walked. Anything else could inject query syntax via the field name.
+const FIELD_NAME_REGEX = /^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/;
+
+const VALUELESS_OPERATORS: QueryOperator[] = ['ISEMPTY', 'ISNOTEMPTY'];
+const LIST_OPERATORS: QueryOperator[] = ['IN', 'NOT IN'];
+
+/**
+ * Escapes a value for use in an encoded query. The instance reads "^^" as a literal caret, so a value
+ * can no longer end the current condition or start a new one (^OR, ^NQ, ^ORDERBY).
+ */
+export function escapeQueryValue(value: QueryValue): string {
+    return String(value).replace(/\^/g, '^^');
+}
+
+/**
+ * Whether the instance would evaluate a query value as server-side script ("javascript:gs.getUserID()")
+ * instead of matching it literally.
+ */
+export function isScriptValue(value: QueryValue): boolean {
+    return /^\s*javascript\s*:/i.test(String(value));
+}
+
+function assertFieldName(field: string): void {
+    if (!FIELD_NAME_REGEX.test(field)) {
+        throw new Error(`Invalid field name in query: '${field}'. Only letters, digits, '_' and '.' are allowed.`);
+    }
+}
+
+function encodeCondition({ field, operator, value }: QueryCondition): string {
+    assertFieldName(field);
+    // Conditions may come straight from tool arguments, so the operator is checked at runtime too
+    if (!QUERY_OPERATORS.includes(operator)) {
+        throw new Error(`Invalid query operator '${operator}'. Valid operators are: ${QUERY_OPERATORS.join(', ')}.`);
+    }
+
+    if (VALUELESS_OPERATORS.includes(operator)) {
+        return `${field}${operator}`;
+    }
+    if (value === undefined) {
+        throw new Error(`Operator ${operator} on field '${field}' requires a value.`);
+    }
+    if ((Array.isArray(value) ? value : [value]).some(isScriptValue)) {
+        throw new Error(`Value for field '${field}' cannot start with 'javascript:': the instance would run it as a script.`);
+    }
+
+    if (LIST_OPERATORS.includes(operator)) {
+        const values = Array.isArray(value) ? value : [value];
+        if (values.length === 0) {
+            throw new Error(`Operator ${operator} on field '${field}' requires at least one value.`);
+        }
+        // IN lists are comma separated and the instance offers no way to escape a comma
+        if (values.some(v => String(v).includes(','))) {
+            throw new Error(`Values for operator ${operator} on field '${field}' cannot contain commas.`);
+        }
+        return `${field}${operator}${values.map(escapeQueryValue).join(',')}`;
+    }
+
+    if (Array.isArray(value)) {
+        throw new Error(`Operator ${operator} on field '${field}' does not accept a list of values.`);
+    }
+    return `${field}${operator}${escapeQueryValue(value)}`;
+}
+
+/**
+ * Builds ServiceNow encoded queries (sysparm_query) from typed conditions, escaping every value.
+ *
+ * Conditions are ANDed (^); orWhere / whereAny add ^OR alternatives, which bind to the condition before them:
+ *   new QueryBuilder().where('active', '=', true).whereAny([{ field: 'name', operator: '=', value: 'x' }, ...])
+ * newQuery() starts an independent query (^NQ) whose results are combined with the previous one.
+ */
+export class QueryBuilder {
+    private queries: string[][] = [[]];
+    private ordering: string[] = [];
+
+    private get current(): string[] {
+        return this.queries[this.queries.length - 1];
+    }
+
+    /**
+     * ANDs a condition with the conditions added so far.
+     */
+    where(field: string, operator: QueryOperator, value?: QueryValue | QueryValue[]): this {
+        this.current.push(encodeCondition({ field, operator, value }));
+        return this;
+    }
+
+    /**
+     * ORs a condition with the previously added condition (or OR group).
+     */
+    orWhere(field: string, operator: QueryOperator, value?: QueryValue | QueryValue[]): this {
+        if (this.current.length === 0) {
+            throw new Error('orWhere() requires a preceding condition.');
+        }
+        this.current[this.current.length - 1] += `^OR${encodeCondition({ field, operator, value })}`;
+        return this;
+    }
+
+    /**
+     * ANDs a group of conditions of which at least one must match.
+     */
+    whereAny(conditions: QueryCondition[]): this {
+        if (conditions.length === 0) {
+            throw new Error('whereAny() requires at least one condition.');
+        }
+        this.current.push(conditions.map(encodeCondition).join('^OR'));
+        return this;
+    }
+
+    /**
+     * Starts a new query (^NQ); records matching either query are returned.
+     */
+    newQuery(): this {
+        if (this.current.length === 0) {
+            throw new Error('newQuery() requires a preceding condition.');
+        }
+        this.queries.push([]);
+        return this;
+    }
+
+    orderBy(field: string): this {
+        assertFieldName(field);
+        this.ordering.push(`ORDERBY${field}`);
+        return this;
+    }
+
+    orderByDesc(field: string): this {
+        assertFieldName(field);
+        this.ordering.push(`ORDERBYDESC${field}`);
+        return this;
+    }
+
+    isEmpty(): boolean {
+        return this.queries.every(query => query.length === 0) && this.ordering.length === 0;
+    }
+
+    /**
+     * @returns The encoded query, e.g. "active=true^nameLIKEfoo^ORdescriptionLIKEfoo^ORDERBYname"
+     */
+    build(): string {
+        const encodedQueries = this.queries
+            .filter(query => query.length > 0)
+            .map(query => query.join('^'));
+        return [encodedQueries.join('^NQ'), ...this.ordering].filter(part => part.length > 0).join('^');
+    }
+
+    toString(): string {
+        return this.build();
+    }
+}
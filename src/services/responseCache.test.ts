@@ -0,0 +1,65 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ResponseCache } from './responseCache.js';
+
+const response = (data: unknown) => ({ data, headers: {} });
+
+describe('ResponseCache', () => {
+    let cacheDir: string;
+
+    beforeEach(async () => {
+        cacheDir = await mkdtemp(join(tmpdir(), 'mcp-sn-cache-'));
+    });
+
+    afterEach(async () => {
+        await rm(cacheDir, { recursive: true, force: true });
+    });
+
+    it('keys on path and params regardless of parameter order', () => {
+        expect(ResponseCache.key('/table/incident', { b: 1, a: 2 })).toBe(ResponseCache.key('/table/incident', { a: 2, b: 1 }));
+        expect(ResponseCache.key('/table/incident', { a: 1 })).not.toBe(ResponseCache.key('/table/incident', { a: 2 }));
+    });
+
+    it('tags Table API and Aggregate API responses with their table', () => {
+        const cache = new ResponseCache();
+        cache.set('records', '/table/incident', response({ result: [] }));
+        cache.set('stats', '/stats/incident', response({ result: { stats: { count: '3' } } }));
+        cache.set('users', '/table/sys_user', response({ result: [] }));
+
+        expect(cache.clear('incident')).toBe(2);
+        expect(cache.get('stats')).toBeUndefined();
+        expect(cache.get('users')).toBeDefined();
+    });
+
+    it('persists metadata responses but keeps record data in memory', async () => {
+        const cache = new ResponseCache({ cacheDir }, 'admin@dev12345.service-now.com');
+        cache.set('metadata', '/table/sys_dictionary', response({ result: [{ element: 'short_description' }] }));
+        cache.set('records', '/table/incident', response({ result: [{ short_description: 'Printer on fire' }] }));
+        cache.set('stats', '/stats/incident', response({ result: { stats: { count: '3' } } }));
+
+        expect(cache.get('records')).toBeDefined();
+        expect(cache.get('stats')).toBeDefined();
+
+        // Writes are asynchronous; reopening the cache reads what reached the disk
+        await new Promise(resolve => setTimeout(resolve, 50));
+        const file = await readFile(join(cacheDir, 'admin@dev12345.service-now.com.json'), 'utf8');
+        expect(file).toContain('short_description');
+        expect(file).not.toContain('Printer on fire');
+
+        const reopened = new ResponseCache({ cacheDir }, 'admin@dev12345.service-now.com');
+        expect(reopened.get('metadata')).toEqual(response({ result: [{ element: 'short_description' }] }));
+        expect(reopened.get('records')).toBeUndefined();
+        expect(reopened.get('stats')).toBeUndefined();
+    });
+
+    it('keeps the responses of different users in separate files', async () => {
+        const admin = new ResponseCache({ cacheDir }, 'admin@dev12345.service-now.com');
+        admin.set('metadata', '/table/sys_dictionary', response({ result: [{ element: 'salary' }] }));
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        const agent = new ResponseCache({ cacheDir }, 'agent@dev12345.service-now.com');
+        expect(agent.get('metadata')).toBeUndefined();
+    });
+});
@@ -0,0 +1,220 @@
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+
+export interface CacheOptions {
+    enabled?: boolean; // Defaults to true
+    ttlOverrides?: { [tableName: string]: number }; // Seconds per table, overriding DEFAULT_TABLE_TTLS
+    cacheDir?: string; // Persist metadata responses to this directory so they survive restarts (never record data)
+}
+
+// Cached response body plus the headers later requests may need (e.g., total counts for pagination)
+export interface CachedResponse {
+    data: any;
+    headers: { [name: string]: string };
+}
+
+interface CacheEntry {
+    value: CachedResponse;
+    expiresAt: number; // Epoch milliseconds
+    table: string | null; // Table the response came from, used for invalidation
+}
+
+export interface CacheStats {
+    enabled: boolean;
+    entries: number;
+    hits: number;
+    misses: number;
+    hitRate: number; // 0..1
+    persistedTo: string | null;
+}
+
+// Metadata rarely changes during a session; data and properties change often
+const METADATA_TTL_SECONDS = 60 * 60;
+const SCRIPT_TTL_SECONDS = 5 * 60;
+const DEFAULT_TTL_SECONDS = 30;
+
+// Seconds to cache responses per table. Tables not listed (record data, other APIs) use DEFAULT_TTL_SECONDS.
+export const DEFAULT_TABLE_TTLS: { [tableName: string]: number } = {
+    sys_db_object: METADATA_TTL_SECONDS,
+    sys_dictionary: METADATA_TTL_SECONDS,
+    sys_dictionary_override: METADATA_TTL_SECONDS,
+    sys_choice: METADATA_TTL_SECONDS,
+    sys_scope: METADATA_TTL_SECONDS,
+    sys_documentation: METADATA_TTL_SECONDS,
+    sys_script: SCRIPT_TTL_SECONDS,
+    sys_script_include: SCRIPT_TTL_SECONDS,
+    sys_script_client: SCRIPT_TTL_SECONDS,
+    sys_security_acl: SCRIPT_TTL_SECONDS,
+    sys_properties: 15,
+};
+
+// Only responses from these metadata and configuration tables are written to cacheDir. Record data
+// (query_records, get_table_stats on data tables, other APIs) stays in memory, so it never ends up on disk.
+const PERSISTED_TABLES = Object.keys(DEFAULT_TABLE_TTLS);
+
+function isPersisted(entry: CacheEntry): boolean {
+    return entry.table !== null && PERSISTED_TABLES.includes(entry.table);
+}
+
+// Oldest entries are evicted beyond this size
+const MAX_ENTRIES = 2000;
+
+/**
+ * Extracts the table name from a Table API or Aggregate API path (e.g., /table/incident/<sys_id> or
+ * /stats/incident -> incident), so writes to a table also invalidate its cached stats.
+ */
+export function tableFromPath(path: string): string | null {
+    const match = /^\/?(?:table|stats)\/([^/?]+)/.exec(path);
+    return match ? match[1] : null;
+}
+
+/**
+ * In-memory (optionally on-disk) cache of GET responses for one instance, keyed by path and params.
+ */
+export class ResponseCache {
+    private entries = new Map<string, CacheEntry>();
+    private enabled: boolean;
+    private ttls: { [tableName: string]: number };
+    private filePath: string | null = null;
+    private hits = 0;
+    private misses = 0;
+    private pendingWrite: Promise<void> | null = null;
+    private writeQueued = false;
+
+    /**
+     * @param options Cache settings
+     * @param instanceId Identifies the instance and user in the on-disk file name (e.g., admin@dev12345.service-now.com)
+     */
+    constructor(options: CacheOptions = {}, instanceId: string = 'default') {
+        this.enabled = options.enabled ?? true;
+        this.ttls = { ...DEFAULT_TABLE_TTLS, ...options.ttlOverrides };
+
+        if (this.enabled && options.cacheDir) {
+            mkdirSync(options.cacheDir, { recursive: true, mode: 0o700 });
+            this.filePath = join(options.cacheDir, `${instanceId.replace(/[^A-Za-z0-9_.@-]/g, '_')}.json`);
+            this.load();
+        }
+    }
+
+    static key(path: string, params?: Record<string, unknown>): string {
+        if (!params || typeof params !== 'object') {
+            return path;
+        }
+        const sorted = Object.keys(params).sort().map(name => [name, params[name]]);
+        return `${path}?${JSON.stringify(sorted)}`;
+    }
+
+    ttlSecondsFor(path: string): number {
+        const table = tableFromPath(path);
+        return table && this.ttls[table] !== undefined ? this.ttls[table] : DEFAULT_TTL_SECONDS;
+    }
+
+    get(key: string): CachedResponse | undefined {
+        if (!this.enabled) {
+            return undefined;
+        }
+        const entry = this.entries.get(key);
+        if (entry && entry.expiresAt > Date.now()) {
+            this.hits++;
+            return entry.value;
+        }
+        if (entry) {
+            this.entries.delete(key);
+        }
+        this.misses++;
+        return undefined;
+    }
+
+    set(key: string, path: string, value: CachedResponse): void {
+        const ttlSeconds = this.ttlSecondsFor(path);
+        if (!this.enabled || ttlSeconds <= 0) {
+            return;
+        }
+        const entry: CacheEntry = { value, expiresAt: Date.now() + ttlSeconds * 1000, table: tableFromPath(path) };
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        while (this.entries.size > MAX_ENTRIES) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.entries.delete(oldestKey);
+        }
+        if (isPersisted(entry)) {
+            this.persist();
+        }
+    }
+
+    /**
+     * Removes cached responses.
+     * @param table Only remove responses from this table; everything is removed when omitted
+     * @returns The number of removed entries
+     */
+    clear(table?: string): number {
+        let removed = 0;
+        for (const [key, entry] of this.entries) {
+            if (!table || entry.table === table) {
+                this.entries.delete(key);
+                removed++;
+            }
+        }
+        if (removed > 0) {
+            this.persist();
+        }
+        return removed;
+    }
+
+    stats(): CacheStats {
+        const lookups = this.hits + this.misses;
+        return {
+            enabled: this.enabled,
+            entries: this.entries.size,
+            hits: this.hits,
+            misses: this.misses,
+            hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : 0,
+            persistedTo: this.filePath,
+        };
+    }
+
+    private load(): void {
+        if (!this.filePath || !existsSync(this.filePath)) {
+            return;
+        }
+        try {
+            const stored = JSON.parse(readFileSync(this.filePath, 'utf8')) as [string, CacheEntry][];
+            const now = Date.now();
+            for (const [key, entry] of stored) {
+                // Files written before record data was excluded may still hold it
+                if (entry.expiresAt > now && isPersisted(entry)) {
+                    this.entries.set(key, entry);
+                }
+            }
+        } catch (error) {
+            // A corrupt cache file is not fatal; start empty and overwrite it on the next write
+            this.entries.clear();
+        }
+    }
+
+    // Writes are serialized and coalesced so a burst of set() calls results in at most one pending write
+    private persist(): void {
+        if (!this.filePath) {
+            return;
+        }
+        if (this.pendingWrite) {
+            this.writeQueued = true;
+            return;
+        }
+        const filePath = this.filePath;
+        const persisted = Array.from(this.entries.entries()).filter(([, entry]) => isPersisted(entry));
+        this.pendingWrite = writeFile(filePath, JSON.stringify(persisted), { mode: 0o600 })
+            .catch(() => {
+                // Persistence is best effort; the in-memory cache keeps working
+            })
+            .finally(() => {
+                this.pendingWrite = null;
+                if (this.writeQueued) {
+                    this.writeQueued = false;
+                    this.persist();
+                }
+            });
+    }
+}
@@ -0,0 +1,185 @@
+import { getTableSchema } from './getTableSchema.js';
+import { findBusinessRules } from './getBusinessRuleDetails.js';
+import { getAclDetails } from './getAclDetails.js';
+import { findSystemProperties } from './findSystemProperties.js';
+import { FieldSchema, PaginatedResult } from '../types.js';
+
+interface CompareInstancesArgs {
+    sourceInstance: string; // Profile name, e.g. 'dev'
+    targetInstance: string; // Profile name, e.g. 'test'
+    tableName?: string; // Compares dictionary fields, business rules and ACLs of this table
+    scopeName?: string; // Compares business rules and system properties of this scope
+    propertySearchTerm?: string; // Compares system properties matching this name / description term
+}
+
+interface FieldChange {
+    field: string;
+    source: unknown;
+    target: unknown;
+}
+
+// Differences going from the source to the target instance
+interface CategoryDiff<T> {
+    added: T[]; // Only present on the target instance
+    removed: T[]; // Only present on the source instance
+    changed: { key: string; changes: FieldChange[] }[];
+    unchangedCount: number;
+    truncated: boolean; // One of the instances had more records than were fetched, so the diff is incomplete
+}
+
+type RecordOf<T extends (...args: any[]) => Promise<PaginatedResult<any>>> = Awaited<ReturnType<T>>['records'][number];
+
+interface CompareInstancesResult {
+    sourceInstance: string;
+    targetInstance: string;
+    tableName?: string;
+    scopeName?: string;
+    tableMissingOn?: string[]; // Instances on which the table does not exist
+    fields?: CategoryDiff<FieldSchema>;
+    businessRules?: CategoryDiff<RecordOf<typeof findBusinessRules>>;
+    acls?: CategoryDiff<RecordOf<typeof getAclDetails>>;
+    systemProperties?: CategoryDiff<RecordOf<typeof findSystemProperties>>;
+}
+
+/**
+ * Keys records and appends a counter to duplicate keys (e.g., two business rules with the same name on one table),
+ * so that both instances pair duplicates up in the same order.
+ */
+function indexByKey<T>(records: T[], keyOf: (record: T) => string): Map<string, T> {
+    const indexed = new Map<string, T>();
+    for (const record of records) {
+        const baseKey = keyOf(record);
+        let key = baseKey;
+        for (let n = 2; indexed.has(key); n++) {
+            key = `${baseKey} #${n}`;
+        }
+        indexed.set(key, record);
+    }
+    return indexed;
+}
+
+function diffRecords<T>(sourceResult: PaginatedResult<T>, targetResult: PaginatedResult<T>, keyOf: (record: T) => string, compareFields: (keyof T)[]): CategoryDiff<T> {
+    const source = indexByKey(sourceResult.records, keyOf);
+    const target = indexByKey(targetResult.records, keyOf);
+
+    const diff: CategoryDiff<T> = {
+        added: [],
+        removed: [],
+        changed: [],
+        unchangedCount: 0,
+        truncated: sourceResult.truncated || targetResult.truncated,
+    };
+
+    for (const [key, sourceRecord] of source) {
+        const targetRecord = target.get(key);
+        if (!targetRecord) {
+            diff.removed.push(sourceRecord);
+            continue;
+        }
+
+        const changes: FieldChange[] = compareFields
+            .filter(field => (sourceRecord[field] ?? null) !== (targetRecord[field] ?? null))
+            .map(field => ({ field: String(field), source: sourceRecord[field] ?? null, target: targetRecord[field] ?? null }));
+
+        if (changes.length > 0) {
+            diff.changed.push({ key, changes });
+        } else {
+            diff.unchangedCount++;
+        }
+    }
+
+    for (const [key, targetRecord] of target) {
+        if (!source.has(key)) {
+            diff.added.push(targetRecord);
+        }
+    }
+
+    return diff;
+}
+
+/**
+ * Compares configuration between two instance profiles to find "it worked in dev" drift.
+ * With a tableName it diffs dictionary fields, business rules and ACLs; with a scopeName it diffs the scope's
+ * business rules and system properties; with a propertySearchTerm it diffs the matching system properties.
+ */
+export async function compareInstances(args: CompareInstancesArgs): Promise<CompareInstancesResult> {
+    const { sourceInstance, targetInstance, tableName, scopeName, propertySearchTerm } = args;
+
+    if (!tableName && !scopeName && !propertySearchTerm) {
+        throw new Error('At least one of tableName, scopeName or propertySearchTerm must be provided.');
+    }
+    if (sourceInstance === targetInstance) {
+        throw new Error('sourceInstance and targetInstance must be different profiles.');
+    }
+
+    const result: CompareInstancesResult = { sourceInstance, targetInstance, tableName, scopeName };
+
+    if (tableName) {
+        const [sourceSchema, targetSchema] = await Promise.all([
+            getTableSchema(tableName, sourceInstance),
+            getTableSchema(tableName, targetInstance),
+        ]);
+
+        const tableMissingOn = [
+            ...(sourceSchema ? [] : [sourceInstance]),
+            ...(targetSchema ? [] : [targetInstance]),
+        ];
+        if (tableMissingOn.length > 0) {
+            result.tableMissingOn = tableMissingOn;
+        }
+
+        // Wrap the schemas' fields so they diff like any other record list
+        const asResult = (schema: typeof sourceSchema): PaginatedResult<FieldSchema> => ({
+            records: schema?.fields || [],
+            totalCount: null,
+            truncated: !!schema?.truncated,
+        });
+
+        result.fields = diffRecords(
+            asResult(sourceSchema),
+            asResult(targetSchema),
+            field => field.name,
+            ['label', 'type', 'referenceTable', 'maxLength', 'mandatory', 'readOnly', 'definedOn', 'overriddenOn']
+        );
+
+        const [sourceAcls, targetAcls] = await Promise.all([
+            getAclDetails({ aclNameOrTable: tableName, instance: sourceInstance }),
+            getAclDetails({ aclNameOrTable: tableName, instance: targetInstance }),
+        ]);
+        result.acls = diffRecords(
+            sourceAcls,
+            targetAcls,
+            acl => `${acl.name} (${acl.type}/${acl.operation})`,
+            ['active', 'admin_overrides', 'condition_script', 'roles', 'description']
+        );
+    }
+
+    if (tableName || scopeName) {
+        const [sourceRules, targetRules] = await Promise.all([
+            findBusinessRules({ tableName, scopeName, includeScript: true, instance: sourceInstance }),
+            findBusinessRules({ tableName, scopeName, includeScript: true, instance: targetInstance }),
+        ]);
+        result.businessRules = diffRecords(
+            sourceRules,
+            targetRules,
+            rule => `${rule.table}.${rule.name}`,
+            // The script is compared as-is; references and filterConditionDescription are derived from it
+            ['when', 'order', 'active', 'insert', 'update', 'delete', 'query', 'condition', 'filterCondition', 'abortAction', 'priority', 'scope', 'script']
+        );
+    }
+
+    if (scopeName || propertySearchTerm) {
+        const [sourceProperties, targetProperties] = await Promise.all([
+            findSystemProperties(propertySearchTerm, sourceInstance, scopeName),
+            findSystemProperties(propertySearchTerm, targetInstance, scopeName),
+        ]);
+        result.systemProperties = diffRecords(
+            sourceProperties,
+            targetProperties,
+            property => property.name,
+            ['value', 'scope']
+        );
+    }
+
+    return result;
+}
@@ -0,0 +1,180 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+
+export interface ExecuteScriptOptions {
+    enabled: boolean; // execute_script is refused unless explicitly enabled
+    productionHostPatterns?: string[]; // Regexes; a matching instance hostname is treated as production
+    auditLogPath?: string; // Append-only JSON lines log of every execution request
+}
+
+interface ExecuteScriptArgs {
+    script: string;
+    scope?: string;
+    instance?: string; // Optional instance (profile) name
+}
+
+// Shape of the execute_script result, see TOOL-08 in Product_document.md
+interface ExecuteScriptResult {
+    instance: string;
+    output: string; // Captured gs.print / gs.info / gs.log output
+    error: string | null; // Evaluator errors reported by the instance
+    executionTimeMs: number;
+}
+
+interface AuditLogEntry {
+    timestamp: string;
+    instance: string;
+    status: 'refused' | 'started' | 'succeeded' | 'failed';
+    script: string;
+    scope: string;
+    output?: string;
+    error?: string | null;
+    executionTimeMs?: number;
+}
+
+export const DEFAULT_AUDIT_LOG_PATH = join(homedir(), '.mcp-sn', 'execute-script-audit.log');
+
+// Instance name tokens that mark an instance as non-production when no explicit patterns are configured
+const NON_PRODUCTION_MARKERS = ['dev', 'test', 'tst', 'uat', 'qa', 'sandbox', 'sbx', 'stage', 'stg', 'demo', 'train', 'poc'];
+
+// A local (fake) instance is never production
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]', '::1'];
+
+let executeScriptOptions: ExecuteScriptOptions = { enabled: false };
+
+/**
+ * Configures the execute_script safety gates. Should be called once at startup (e.g., in main).
+ * @param options Whether the tool is enabled, production hostname patterns and the audit log location
+ */
+export function configureExecuteScript(options: ExecuteScriptOptions): void {
+    for (const pattern of options.productionHostPatterns || []) {
+        try {
+            new RegExp(pattern, 'i');
+        } catch (e) {
+            throw new Error(`Invalid production host pattern '${pattern}': ${(e as Error).message}`);
+        }
+    }
+    executeScriptOptions = { ...options };
+}
+
+export function isExecuteScriptEnabled(): boolean {
+    return executeScriptOptions.enabled;
+}
+
+/**
+ * Decides whether an instance hostname looks like production.
+ * With configured patterns, any match means production. Without them, an instance is production unless a
+ * token of its instance name (the first hostname label, split on '-', '.' and digits) is a well-known
+ * non-production marker: 'acme-dev2' and 'dev12345' are non-production, 'acmedevices' and 'contest' are not.
+ */
+export function isProductionHost(hostname: string, productionHostPatterns?: string[]): boolean {
+    const host = hostname.toLowerCase();
+    if (productionHostPatterns && productionHostPatterns.length > 0) {
+        return productionHostPatterns.some(pattern => new RegExp(pattern, 'i').test(host));
+    }
+    if (LOOPBACK_HOSTS.includes(host)) {
+        return false;
+    }
+    const tokens = host.split('.')[0].split(/[-.\d]+/).filter(token => token.length > 0);
+    return !NON_PRODUCTION_MARKERS.some(marker => tokens.includes(marker));
+}
+
+async function writeAuditLog(entry: AuditLogEntry): Promise<void> {
+    const logPath = executeScriptOptions.auditLogPath || DEFAULT_AUDIT_LOG_PATH;
+    await mkdir(dirname(logPath), { recursive: true });
+    await appendFile(logPath, JSON.stringify(entry) + '\n', { encoding: 'utf8', mode: 0o600 });
+}
+
+function decodeHtmlEntities(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Extracts the script output lines from the sys.scripts.do response page.
+ * Output is rendered inside a <PRE> block with <BR/> line breaks, after a "Script completed in scope" header.
+ * Any other page (a login form, an SSO redirect) means the script did not run, and is an error.
+ */
+export function parseBackgroundScriptOutput(html: string): { output: string; error: string | null } {
+    const preBlocks = Array.from(html.matchAll(/<pre[^>]*>([\s\S]*?)<\/pre>/gi)).map(m => m[1]);
+    if (preBlocks.length === 0 && !/Script completed in scope/i.test(html)) {
+        throw new Error('The instance did not return script output (a login or SSO page?). Check the credentials and that the user has the admin role.');
+    }
+    const body = preBlocks.join('\n');
+
+    const lines = decodeHtmlEntities(
+        body
+            .replace(/<br\s*\/?>/gi, '\n')
+            .replace(/<[^>]+>/g, '')
+    )
+        .split('\n')
+        .map(line => line.trimEnd())
+        .filter(line => line.length > 0);
+
+    // Only the evaluator's own markers count; printed text such as "No Errors found" is output
+    const errorLines = lines.filter(line => /^Evaluator:|EcmaError|EvaluatorException/.test(line));
+
+    return {
+        output: lines.join('\n'),
+        error: errorLines.length > 0 ? errorLines.join('\n') : null,
+    };
+}
+
+/**
+ * Executes a GlideScript snippet as a Background Script. HIGH RISK: only for non-production instances.
+ * While the tool is enabled, every request is written to the audit log and announced on stderr: refused ones
+ * once, executed ones before the script is posted ('started') and again with their outcome.
+ */
+export async function executeScript(args: ExecuteScriptArgs): Promise<ExecuteScriptResult> {
+    const { script } = args;
+    const scope = args.scope || 'global';
+
+    if (!executeScriptOptions.enabled) {
+        throw new Error('execute_script is disabled. Start the server with --enableExecuteScript and --allowWrites to allow it (non-production instances only).');
+    }
+
+    const client = getAuthenticatedClient(args.instance);
+    const instance = client.getInstanceUrl();
+    const hostname = new URL(instance).hostname;
+
+    if (client.isReadOnly()) {
+        await writeAuditLog({ timestamp: new Date().toISOString(), instance, status: 'refused', script, scope });
+        throw new Error('execute_script requires write access, but the server is in read-only mode. Start it with --allowWrites.');
+    }
+
+    if (isProductionHost(hostname, executeScriptOptions.productionHostPatterns)) {
+        await writeAuditLog({ timestamp: new Date().toISOString(), instance, status: 'refused', script, scope });
+        console.error(`[execute_script] REFUSED on ${instance}: instance looks like production.`);
+        throw new Error(`Refusing to execute script: instance '${hostname}' looks like production. Adjust --productionHostPattern if this is a non-production instance.`);
+    }
+
+    console.error(`[execute_script] EXECUTING background script on ${instance} (scope: ${scope}, ${script.length} chars)`);
+
+    // Logged before posting, so a script that runs is on record even if the outcome cannot be written
+    await writeAuditLog({ timestamp: new Date().toISOString(), instance, status: 'started', script, scope });
+
+    const start = Date.now();
+    let parsed: { output: string; error: string | null };
+    try {
+        parsed = parseBackgroundScriptOutput(await client.runBackgroundScript(script, scope));
+    } catch (error: any) {
+        const executionTimeMs = Date.now() - start;
+        await writeAuditLog({ timestamp: new Date().toISOString(), instance, status: 'failed', script, scope, error: error.message, executionTimeMs });
+        console.error(`[execute_script] FAILED on ${instance}: ${error.message}`);
+        throw error;
+    }
+    const executionTimeMs = Date.now() - start;
+    const { output, error } = parsed;
+
+    await writeAuditLog({ timestamp: new Date().toISOString(), instance, status: 'succeeded', script, scope, output, error, executionTimeMs });
+    console.error(`[execute_script] Finished on ${instance} in ${executionTimeMs}ms${error ? ' with errors' : ''}`);
+
+    return { instance, output, error, executionTimeMs };
+}
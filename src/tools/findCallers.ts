@@ -0,0 +1,126 @@
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { SCRIPT_TABLES, ScriptTableDefinition, findScriptTableDefinition } from './scriptRegistry.js';
+import { findScriptReferences } from './scriptReferences.js';
+
+interface FindCallersArgs {
+    scriptIncludeName: string; // Name or API name (e.g., 'IncidentUtils' or 'x_acme_app.Helper')
+    method?: string; // Only report scripts calling this method
+    scriptType?: string; // Only search one of the types in SCRIPT_TABLES
+    instance?: string; // Optional instance (profile) name
+}
+
+interface ScriptCaller {
+    name: string;
+    type: string;
+    table: string | null;
+    sys_id: string;
+    scope: string;
+    fields: string[]; // Script fields holding the references
+    references: string[]; // What the script references, e.g. 'IncidentUtils' and 'IncidentUtils.getManager'
+}
+
+interface CallersResult {
+    scriptInclude: string;
+    method: string | null;
+    totalCallers: number;
+    truncated: boolean; // More candidates on the instance than were parsed for some type
+    callers: ScriptCaller[];
+}
+
+// Records fetched per script type and parsed locally
+const CANDIDATE_LIMIT = 200;
+
+/**
+ * Finds the scripts that reference a Script Include, or one of its methods. Candidates are prefiltered on the
+ * instance with LIKE on the class name, then parsed, so mentions in comments or strings do not count.
+ * Client-side callers are found through new GlideAjax('<name>') and addParam('sysparm_name', '<method>').
+ */
+export async function findCallers(args: FindCallersArgs): Promise<CallersResult> {
+    const { scriptIncludeName, method, scriptType, instance } = args;
+
+    if (!scriptIncludeName || !scriptIncludeName.trim()) {
+        throw new Error('scriptIncludeName is required.');
+    }
+
+    let definitions: ScriptTableDefinition[] = SCRIPT_TABLES;
+    if (scriptType) {
+        const definition = findScriptTableDefinition(scriptType);
+        if (!definition) {
+            throw new Error(`Invalid scriptType specified: '${scriptType}'. Valid types are: ${SCRIPT_TABLES.map(d => d.type).join(', ')}.`);
+        }
+        definitions = [definition];
+    }
+
+    const className = scriptIncludeName.split('.').pop() as string;
+    // Foo matches global.Foo and x_app.Foo (and vice versa); two different scope prefixes do not match
+    const isTarget = (reference: string) => reference === scriptIncludeName
+        || (reference.split('.').pop() === className && (!reference.includes('.') || !scriptIncludeName.includes('.')));
+    const isTargetMethod = (entry: string) => {
+        const separator = entry.lastIndexOf('.');
+        return isTarget(entry.substring(0, separator)) && (!method || entry.substring(separator + 1) === method);
+    };
+
+    const client = getAuthenticatedClient(instance);
+    const callers: ScriptCaller[] = [];
+    let truncated = false;
+
+    for (const { table, typeLabel, nameField, scriptFields, tableField } of definitions) {
+        const query = new QueryBuilder()
+            .whereAny(scriptFields.map(field => ({ field, operator: 'LIKE' as const, value: className })));
+
+        let response;
+        try {
+            response = await client.getPaginated<any>(`/table/${table}`, {
+                sysparm_query: query.build(),
+                sysparm_fields: [nameField, 'sys_id', 'sys_scope.scope', 'sys_scope.name', ...scriptFields, ...(tableField ? [tableField] : [])].join(','),
+                sysparm_display_value: 'false',
+            }, { maxRecords: CANDIDATE_LIMIT });
+        } catch (error: any) {
+            // Tables of inactive plugins (e.g., Service Portal) do not exist on every instance
+            continue;
+        }
+        truncated = truncated || response.truncated;
+
+        for (const record of response.records) {
+            // The Script Include itself is not one of its callers
+            if (table === 'sys_script_include' && isTarget(record[nameField])) {
+                continue;
+            }
+
+            const fields: string[] = [];
+            const matched = new Set<string>();
+            for (const field of scriptFields) {
+                const references = findScriptReferences(record[field] || '');
+                const found = method
+                    ? references.methods.filter(isTargetMethod)
+                    : [...references.scriptIncludes.filter(isTarget), ...references.methods.filter(isTargetMethod)];
+                if (found.length > 0) {
+                    fields.push(field);
+                    found.forEach(entry => matched.add(entry));
+                }
+            }
+            if (fields.length === 0) {
+                continue;
+            }
+
+            callers.push({
+                name: record[nameField],
+                type: typeLabel,
+                table: (tableField && record[tableField]) || null,
+                sys_id: record.sys_id,
+                scope: record['sys_scope.scope'] || record['sys_scope.name'] || 'Global',
+                fields,
+                references: Array.from(matched).sort(),
+            });
+        }
+    }
+
+    return {
+        scriptInclude: scriptIncludeName,
+        method: method || null,
+        totalCallers: callers.length,
+        truncated,
+        callers,
+    };
+}
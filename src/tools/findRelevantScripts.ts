@@ -1,47 +1,109 @@
 import { ServiceNowService, getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { PaginatedResult } from '../types.js';
+import { SCRIPT_TABLES, findScriptTableDefinition } from './scriptRegistry.js';
 
 interface FindScriptsArgs {
   tableName?: string;
   keywords?: string;
   scriptType?: string;
   scopeName?: string;
+  maxResults?: number; // Defaults to DEFAULT_MAX_RESULTS
+  instance?: string; // Optional instance (profile) name
 }
 
 interface ScriptResult {
   name: string;
   type: string; // e.g., "Business Rule", "Script Include", "Client Script"
-  table: string | null; // Relevant for Business Rules and Client Scripts
+  table: string | null; // Table the code runs on, for types bound to a table (Business Rules, Client Scripts, UI Actions, ...)
   sys_id: string;
   updated_on: string;
   scope: string; // Scope name
-  reason: string; // Add reason field
+  active: boolean | null; // null when the type has no active flag
+  usageCount?: number; // Other scripts referencing a Script Include by name (a lower bound when many do)
+  score: number; // Sum of the SCORE_WEIGHTS of the criteria that matched
+  reason: string; // The criteria that matched, e.g. "name matches 'approval', runs on table 'incident', active"
 }
 
-// Map user-friendly script types to ServiceNow table names and type strings
-const SCRIPT_TYPE_MAP: { [key: string]: { table: string; typeLabel: string } } = {
-  'business rule': { table: 'sys_script', typeLabel: 'Business Rule' },
-  'script include': { table: 'sys_script_include', typeLabel: 'Script Include' },
-  'client script': { table: 'sys_script_client', typeLabel: 'Client Script' },
+// Points per relevance criterion; results are ranked by their total
+const SCORE_WEIGHTS = {
+  nameMatch: 40, // Keywords appear in the name
+  contentMatch: 20, // Keywords only appear in the code
+  tableMatch: 30, // Runs on the requested table
+  tableMention: 10, // Not bound to a table, but mentions the requested table
+  scopeMatch: 10,
+  active: 10,
+  usage: 2, // Per referencing script, up to MAX_USAGE_SCORE
 };
+const MAX_USAGE_SCORE = 20;
+
+// Results returned per call; also the number of records read per script table
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_MAX_RESULTS = 200;
+
+// Usage is only counted for the few best-ranked Script Includes, as every lookup scans all script tables.
+// MAX_USAGE_SCORE is reached at 10 references, so a small sample per table is enough to rank.
+const USAGE_LOOKUP_LIMIT = 3;
+const USAGE_SCAN_LIMIT = 50;
+
+/**
+ * Counts, per Script Include, the other scripts whose code mentions its name as a whole word.
+ * Code is fetched once per script table for all names and matched locally.
+ */
+async function countScriptIncludeUsage(client: ServiceNowService, includes: ScriptResult[]): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  // Only plain identifiers can be referenced from code (and are safe to put in a RegExp)
+  const candidates = includes.filter(include => /^[A-Za-z_][A-Za-z0-9_]*$/.test(include.name));
+  if (candidates.length === 0) {
+    return counts;
+  }
+  candidates.forEach(include => counts.set(include.name, 0));
+
+  for (const { table, scriptFields } of SCRIPT_TABLES) {
+    const query = new QueryBuilder().whereAny(
+      scriptFields.flatMap(field => candidates.map(include => ({ field, operator: 'LIKE' as const, value: include.name })))
+    );
+    try {
+      const response = await client.getPaginated<any>(`/table/${table}`, {
+        sysparm_query: query.build(),
+        sysparm_fields: ['sys_id', ...scriptFields].join(','),
+        sysparm_display_value: 'false',
+      }, { maxRecords: USAGE_SCAN_LIMIT });
+
+      for (const record of response.records) {
+        const code = scriptFields.map(field => record[field] || '').join('\n');
+        for (const include of candidates) {
+          if (record.sys_id !== include.sys_id && new RegExp(`\\b${include.name}\\b`).test(code)) {
+            counts.set(include.name, (counts.get(include.name) ?? 0) + 1);
+          }
+        }
+      }
+    } catch (error: any) {
+      // Tables of inactive plugins do not exist on every instance
+    }
+  }
+
+  return counts;
+}
 
 export async function findRelevantScripts(
   args: FindScriptsArgs
-): Promise<ScriptResult[]> {
-  const { tableName, keywords, scriptType, scopeName } = args;
+): Promise<PaginatedResult<ScriptResult>> {
+  const { tableName, keywords, scriptType, scopeName, instance } = args;
+  const maxResults = Math.min(Math.max(args.maxResults ?? DEFAULT_MAX_RESULTS, 1), MAX_MAX_RESULTS);
 
   // Get authenticated client
-  const client = getAuthenticatedClient();
+  const client = getAuthenticatedClient(instance);
 
   let scopeSysId: string | null = null;
-  const reasonParts: string[] = []; // Store parts of the reason string
+  const criteria: string[] = []; // Search criteria still applied
 
-  // 1. Find scope sys_id (by technical name OR label) and build reason
+  // 1. Find scope sys_id (by technical name OR label)
   if (scopeName) {
-    // Update reason to reflect search by name or label
-    reasonParts.push(`scope(name/label)=\'${scopeName}\'`);
+    criteria.push('scopeName');
     try {
       // Update query to search both scope and name fields
-      const scopeQuery = `scope=${scopeName}^ORname=${scopeName}`;
+      const scopeQuery = new QueryBuilder().where('scope', '=', scopeName).orWhere('name', '=', scopeName).build();
       const scopeResult = await client.get<{ result: { sys_id: string }[] }>('/table/sys_scope', {
         params: {
           sysparm_query: scopeQuery,
@@ -55,9 +117,9 @@ export async function findRelevantScripts(
         // Comment out warning
         // console.warn(`Scope with name or label \'${scopeName}\' not found.`);
         if (!tableName && !keywords && !scriptType) {
-          return [];
+          return { records: [], totalCount: 0, truncated: false };
         }
-        reasonParts.pop();
+        criteria.pop();
         scopeSysId = null;
         // Comment out warning
         // console.warn(`Continuing search without scope filter.`);
@@ -65,82 +127,116 @@ export async function findRelevantScripts(
     } catch (error) {
       // Comment out error log
       // console.error(`Error fetching scope sys_id for \'${scopeName}\':`, error);
-      reasonParts.pop();
+      criteria.pop();
       scopeSysId = null;
       // Comment out error log
       // console.error('Continuing search without scope filter due to error.');
     }
   }
 
-  // Add other criteria to reason
-  if (tableName) reasonParts.push(`tableName=\'${tableName}\'`);
-  if (keywords) reasonParts.push(`keywords=\'${keywords}\'`);
-  if (scriptType) reasonParts.push(`scriptType=\'${scriptType}\'`);
+  if (tableName) criteria.push('tableName');
+  if (keywords) criteria.push('keywords');
+  if (scriptType) criteria.push('scriptType');
 
   // Check if any criteria remain after potential scope removal
-  if (reasonParts.length === 0) {
+  if (criteria.length === 0) {
     // This should only happen if only scopeName was provided and it wasn't found/errored
-    return [];
+    return { records: [], totalCount: 0, truncated: false };
   }
 
-  const reasonString = `Matched criteria: ${reasonParts.join(', ')}`;
-
   const scriptTypesToQuery = scriptType
-    ? [SCRIPT_TYPE_MAP[scriptType.toLowerCase()]].filter(Boolean) // Filter specific type
-    : Object.values(SCRIPT_TYPE_MAP); // Default to all types
+    ? [findScriptTableDefinition(scriptType)].filter(definition => definition !== undefined) // Filter specific type
+    : SCRIPT_TABLES; // Default to all types
 
   if (scriptTypesToQuery.length === 0 && scriptType) {
-    throw new Error(`Invalid scriptType specified: '${scriptType}'. Valid types are: ${Object.keys(SCRIPT_TYPE_MAP).join(', ')}.`);
+    throw new Error(`Invalid scriptType specified: '${scriptType}'. Valid types are: ${SCRIPT_TABLES.map(definition => definition.type).join(', ')}.`);
   }
 
   const allResults: ScriptResult[] = [];
+  // Summed over the queried tables; unknown as soon as one table does not report its total
+  let totalCount: number | null = 0;
+  let truncated = false;
 
   // 2. Query each relevant script table
-  for (const { table, typeLabel } of scriptTypesToQuery) {
-    const queryParts: string[] = [];
-
-    if (tableName && (table === 'sys_script' || table === 'sys_script_client')) {
-      const tableFieldName = table === 'sys_script' ? 'collection' : 'table';
-      queryParts.push(`${tableFieldName}=${tableName}`);
-    } else if (tableName && table === 'sys_script_include') {
-      if (!keywords) {
-        queryParts.push(`nameLIKE${tableName}^ORscriptLIKE${tableName}`);
-      }
+  for (const { table, typeLabel, nameField, scriptFields, tableField } of scriptTypesToQuery) {
+    const query = new QueryBuilder();
+    const searchFields = [nameField, ...scriptFields];
+
+    if (tableName && tableField) {
+      query.where(tableField, '=', tableName);
+    } else if (tableName && !keywords) {
+      // Types not bound to a table: look for code that mentions the table
+      query.whereAny(searchFields.map(field => ({ field, operator: 'LIKE' as const, value: tableName })));
     }
 
     if (keywords) {
-      queryParts.push(`nameLIKE${keywords}^ORscriptLIKE${keywords}`);
+      query.whereAny(searchFields.map(field => ({ field, operator: 'LIKE' as const, value: keywords })));
     }
 
     // Use the scopeSysId found earlier to filter the script table's sys_scope field
     if (scopeSysId) {
-      queryParts.push(`sys_scope=${scopeSysId}`);
+      query.where('sys_scope', '=', scopeSysId);
     }
 
-    if (queryParts.length === 0) continue;
+    if (query.isEmpty()) continue;
 
-    const sysparm_query = queryParts.join('^');
+    // Only the most recently updated records of a table are read and ranked
+    const sysparm_query = query.orderByDesc('sys_updated_on').build();
 
     try {
-      const response = await client.get<{ result: any[] }>(`/table/${table}`, {
-        params: {
-          sysparm_query,
-          sysparm_fields: 'name,sys_id,sys_updated_on,sys_scope.scope,sys_scope.name' + (table !== 'sys_script_include' ? ',table,collection' : ''),
-          sysparm_limit: 50,
-          sysparm_display_value: 'false',
-        },
-      });
+      const response = await client.getPaginated<any>(`/table/${table}`, {
+        sysparm_query,
+        // Types without an active flag (e.g., fix scripts) simply omit it
+        sysparm_fields: [nameField, 'sys_id', 'sys_updated_on', 'sys_scope.scope', 'sys_scope.name', 'active', ...(tableField ? [tableField] : [])].join(','),
+        sysparm_display_value: 'false',
+      }, { maxRecords: maxResults });
+
+      truncated = truncated || response.truncated;
+      totalCount = totalCount !== null && response.totalCount !== null ? totalCount + response.totalCount : null;
+
+      response.records.forEach((item: any) => {
+        const recordTable: string | null = (tableField && item[tableField]) || null;
+        const matched: string[] = [];
+        let score = 0;
+
+        if (keywords) {
+          // The LIKE matched the name or, failing that, one of the script fields
+          if (String(item[nameField] || '').toLowerCase().includes(keywords.toLowerCase())) {
+            score += SCORE_WEIGHTS.nameMatch;
+            matched.push(`name matches '${keywords}'`);
+          } else {
+            score += SCORE_WEIGHTS.contentMatch;
+            matched.push(`code contains '${keywords}'`);
+          }
+        }
+        if (tableName && recordTable === tableName) {
+          score += SCORE_WEIGHTS.tableMatch;
+          matched.push(`runs on table '${tableName}'`);
+        } else if (tableName && !tableField && !keywords) {
+          score += SCORE_WEIGHTS.tableMention;
+          matched.push(`mentions table '${tableName}'`);
+        }
+        if (scopeSysId) {
+          score += SCORE_WEIGHTS.scopeMatch;
+          matched.push(`in scope '${scopeName}'`);
+        }
+        if (item.active === 'true') {
+          score += SCORE_WEIGHTS.active;
+          matched.push('active');
+        } else if (item.active === 'false') {
+          matched.push('inactive');
+        }
 
-      const results = response.result || [];
-      results.forEach((item: any) => {
         allResults.push({
-          name: item.name,
+          name: item[nameField],
           type: typeLabel,
-          table: item.collection || item.table || null,
+          table: recordTable,
           sys_id: item.sys_id,
           updated_on: item.sys_updated_on,
           scope: item['sys_scope.scope'] || item['sys_scope.name'] || 'Global',
-          reason: reasonString,
+          active: item.active === undefined ? null : item.active === 'true',
+          score,
+          reason: matched.join(', '),
         });
       });
     } catch (error: any) {
@@ -149,7 +245,30 @@ export async function findRelevantScripts(
     }
   }
 
-  allResults.sort((a, b) => b.updated_on.localeCompare(a.updated_on));
+  const byRelevance = (a: ScriptResult, b: ScriptResult) => b.score - a.score || b.updated_on.localeCompare(a.updated_on);
+  allResults.sort(byRelevance);
+
+  // 3. Usage: how many other scripts reference the best-ranked Script Includes
+  const includes = allResults.filter(result => result.type === 'Script Include').slice(0, USAGE_LOOKUP_LIMIT);
+  if (includes.length > 0) {
+    const usage = await countScriptIncludeUsage(client, includes);
+    for (const include of includes) {
+      const usageCount = usage.get(include.name);
+      if (usageCount === undefined) {
+        continue;
+      }
+      include.usageCount = usageCount;
+      if (usageCount > 0) {
+        include.score += Math.min(usageCount * SCORE_WEIGHTS.usage, MAX_USAGE_SCORE);
+        include.reason = [include.reason, `referenced by ${usageCount} script${usageCount === 1 ? '' : 's'}`].filter(Boolean).join(', ');
+      }
+    }
+    allResults.sort(byRelevance);
+  }
 
-  return allResults;
+  return {
+    records: allResults.slice(0, maxResults),
+    totalCount,
+    truncated: truncated || allResults.length > maxResults,
+  };
 }
@@ -1,4 +1,6 @@
 import { ServiceNowService, getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { PaginatedResult } from '../types.js';
 
 // Represents details of a single system property
 interface SystemPropertyDetail {
@@ -9,40 +11,52 @@ interface SystemPropertyDetail {
     updated_on: string;
 }
 
-// Function to find system properties by name (exact) or description (wildcard)
+// Function to find system properties by name (exact) or description (wildcard), optionally limited to a scope
 export async function findSystemProperties(
-    searchTerm: string
-): Promise<SystemPropertyDetail[]> {
+    searchTerm: string | undefined,
+    instance?: string,
+    scopeName?: string
+): Promise<PaginatedResult<SystemPropertyDetail>> {
+
+    if (!searchTerm && !scopeName) {
+        throw new Error('Either searchTerm or scopeName must be provided.');
+    }
 
     // Get authenticated client
-    const client = getAuthenticatedClient();
+    const client = getAuthenticatedClient(instance);
 
     // Construct the query: exact match on name OR wildcard match on description
-    const sysparm_query = `name=${searchTerm}^ORdescriptionLIKE${searchTerm}`;
+    const query = new QueryBuilder();
+    if (searchTerm) {
+        query.where('name', '=', searchTerm).orWhere('description', 'LIKE', searchTerm);
+    }
+    // Scope by technical name or label
+    if (scopeName) {
+        query.where('sys_scope.scope', '=', scopeName).orWhere('sys_scope.name', '=', scopeName);
+    }
+    const sysparm_query = query.build();
     // Fields to retrieve, including dot-walking for scope name/label
     const sysparm_fields = 'name,value,description,sys_updated_on,sys_scope.scope,sys_scope.name';
 
     try {
-        const response = await client.get<{ result: any[] }>('/table/sys_properties', {
-            params: {
-                sysparm_query,
-                sysparm_fields,
-                sysparm_limit: 50, // Return up to 50 matches
-                sysparm_display_value: 'false', // Get raw values and sys_ids
-            },
+        const response = await client.getPaginated('/table/sys_properties', {
+            sysparm_query,
+            sysparm_fields,
+            sysparm_display_value: 'false', // Get raw values and sys_ids
         });
 
-        const results = response.result || [];
-
         // Map results to the SystemPropertyDetail interface
-        return results.map((item: any): SystemPropertyDetail => ({
-            name: item.name,
-            value: item.value,
-            description: item.description,
-            // Use dot-walked scope technical name or label, default to Global
-            scope: item['sys_scope.scope'] || item['sys_scope.name'] || 'Global',
-            updated_on: item.sys_updated_on,
-        }));
+        return {
+            ...response,
+            records: response.records.map((item: any): SystemPropertyDetail => ({
+                name: item.name,
+                value: item.value,
+                description: item.description,
+                // Use dot-walked scope technical name or label, default to Global
+                scope: item['sys_scope.scope'] || item['sys_scope.name'] || 'Global',
+                updated_on: item.sys_updated_on,
+            })),
+        };
 
     } catch (error) {
         // Comment out error log
@@ -0,0 +1,74 @@
+import ts from 'typescript';
+import { describe, expect, it, vi } from 'vitest';
+import { TableSchema } from '../types.js';
+import { GLIDE_FILE_NAME, TABLES_FILE_NAME, TypingsFile, generateTypings } from './generateTypings.js';
+
+const SCHEMAS: { [tableName: string]: TableSchema } = {
+    incident: {
+        name: 'incident',
+        label: 'Incident',
+        hierarchy: ['incident', 'task'],
+        fields: [
+            { name: 'short_description', label: 'Short description', type: 'string', description: '', definedOn: 'task' },
+            { name: 'caller_id', label: 'Caller', type: 'reference', referenceTable: 'sys_user', description: '', definedOn: 'incident' },
+        ],
+    },
+    sys_user: {
+        name: 'sys_user',
+        label: 'User',
+        hierarchy: ['sys_user'],
+        fields: [{ name: 'user_name', label: 'User ID', type: 'string', description: '', definedOn: 'sys_user' }],
+    },
+};
+
+vi.mock('./getTableSchema.js', () => ({
+    getTableSchema: async (tableName: string) => SCHEMAS[tableName] ?? null,
+}));
+
+vi.mock('../services/serviceNowService.js', () => ({
+    getAuthenticatedClient: () => ({
+        getPaginated: async () => ({ records: [], totalCount: 0, truncated: false }),
+    }),
+}));
+
+// Type-checks the given files together with a script using them; returns the diagnostics
+function compile(files: { [name: string]: string }): string[] {
+    const host = ts.createCompilerHost({});
+    const readFile = host.readFile;
+    host.readFile = fileName => files[fileName.replace(/^\.\//, '')] ?? readFile(fileName);
+    host.fileExists = fileName => fileName.replace(/^\.\//, '') in files || ts.sys.fileExists(fileName);
+    const program = ts.createProgram(Object.keys(files), { noEmit: true, strict: true, types: [] }, host);
+    return ts.getPreEmitDiagnostics(program).map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+const byName = (files: TypingsFile[]) => Object.fromEntries(files.map(file => [file.name, file.content]));
+
+describe('generateTypings', () => {
+    it('declares the Glide base types once and references them from the table file', async () => {
+        const { files } = await generateTypings({ tables: ['incident'] });
+        expect(files.map(file => file.name)).toEqual([GLIDE_FILE_NAME, TABLES_FILE_NAME]);
+        expect(files[1].content).toContain(`/// <reference path="./${GLIDE_FILE_NAME}" />`);
+        expect(files[1].content).not.toContain('declare var GlideRecord');
+    });
+
+    it('merges table files generated separately into one map', async () => {
+        const incident = byName((await generateTypings({ tables: ['incident'] })).files);
+        const user = byName((await generateTypings({ tables: ['sys_user'] })).files);
+
+        const diagnostics = compile({
+            [GLIDE_FILE_NAME]: incident[GLIDE_FILE_NAME],
+            'incident.d.ts': incident[TABLES_FILE_NAME],
+            'sys_user.d.ts': user[TABLES_FILE_NAME],
+            'script.ts': [
+                `/// <reference path="./${GLIDE_FILE_NAME}" />`,
+                "const gr = new GlideRecord('incident');",
+                "const userName: string = gr.caller_id.user_name.getValue();",
+                "gr.addQuery('short_description', 'x');",
+                "gr.addQuery('no_such_field', 'x');",
+            ].join('\n'),
+        });
+
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0]).toContain("'\"no_such_field\"'");
+    });
+});
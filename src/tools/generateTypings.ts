@@ -0,0 +1,355 @@
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { TableSchema, FieldSchema } from '../types.js';
+import { getTableSchema } from './getTableSchema.js';
+import { getScriptIncludeApi, ScriptIncludeAPIResult, ScriptIncludeFunction } from './getScriptIncludeApi.js';
+
+interface GenerateTypingsArgs {
+    tables?: string[];
+    scriptIncludes?: string[]; // Names or API names
+    instance?: string; // Optional instance (profile) name
+}
+
+export interface TypingsFile {
+    name: string; // File name, e.g. servicenow-tables.d.ts
+    content: string;
+}
+
+interface GeneratedTypings {
+    files: TypingsFile[];
+    warnings: string[]; // Tables or Script Includes that could not be read
+}
+
+export const GLIDE_FILE_NAME = 'servicenow-glide.d.ts';
+export const TABLES_FILE_NAME = 'servicenow-tables.d.ts';
+export const SCRIPT_INCLUDES_FILE_NAME = 'servicenow-script-includes.d.ts';
+
+// GlideRecord / GlideElement declarations the generated field maps build on, emitted once in GLIDE_FILE_NAME.
+// ServiceNowTables is an interface, so table files generated separately (under different names) and
+// referencing that file merge into one map.
+const BASE_DECLARATIONS = `interface ServiceNowTables {}
+
+type TableFields<T extends string> = T extends keyof ServiceNowTables ? ServiceNowTables[T] : { [field: string]: GlideElement };
+
+type FieldName<T extends string> = T extends keyof ServiceNowTables ? Extract<keyof ServiceNowTables[T], string> : string;
+
+interface GlideElement<V extends string = string> {
+    getValue(): V;
+    setValue(value: V | GlideElement<V>): void;
+    getDisplayValue(): string;
+    setDisplayValue(value: string): void;
+    getLabel(): string;
+    toString(): V;
+    nil(): boolean;
+    changes(): boolean;
+    changesTo(value: V): boolean;
+    changesFrom(value: V): boolean;
+    canRead(): boolean;
+    canWrite(): boolean;
+}
+
+/** A reference field: dot-walk to the target table's fields or load the referenced record. */
+type GlideElementReference<T extends string> = GlideElement & TableFields<T> & {
+    getRefRecord(): GlideRecord<T>;
+};
+
+interface GlideQueryCondition {
+    addOrCondition(field: string, operator: any, value?: any): GlideQueryCondition;
+    addCondition(field: string, operator: any, value?: any): GlideQueryCondition;
+}
+
+interface GlideRecordMethods<T extends string> {
+    addQuery(field: FieldName<T> | \`\${FieldName<T>}.\${string}\`, value: any): GlideQueryCondition;
+    addQuery(field: FieldName<T> | \`\${FieldName<T>}.\${string}\`, operator: string, value: any): GlideQueryCondition;
+    addQuery(encodedQuery: string): GlideQueryCondition;
+    addEncodedQuery(encodedQuery: string): void;
+    addNullQuery(field: FieldName<T>): GlideQueryCondition;
+    addNotNullQuery(field: FieldName<T>): GlideQueryCondition;
+    addActiveQuery(): GlideQueryCondition;
+    orderBy(field: FieldName<T>): void;
+    orderByDesc(field: FieldName<T>): void;
+    setLimit(limit: number): void;
+    query(): void;
+    next(): boolean;
+    hasNext(): boolean;
+    get(sysId: string): boolean;
+    get(field: FieldName<T>, value: any): boolean;
+    getValue(field: FieldName<T>): string | null;
+    setValue(field: FieldName<T>, value: any): void;
+    getDisplayValue(field?: FieldName<T>): string;
+    getElement(field: FieldName<T>): GlideElement;
+    getUniqueValue(): string;
+    getTableName(): T;
+    getRowCount(): number;
+    initialize(): void;
+    newRecord(): void;
+    insert(): string | null;
+    update(reason?: string): string | null;
+    deleteRecord(): boolean;
+    deleteMultiple(): void;
+    updateMultiple(): void;
+    isValidRecord(): boolean;
+    isNewRecord(): boolean;
+    canCreate(): boolean;
+    canRead(): boolean;
+    canWrite(): boolean;
+    canDelete(): boolean;
+    setWorkflow(enabled: boolean): void;
+    setAbortAction(abort: boolean): void;
+    operation(): string;
+}
+
+type GlideRecord<T extends string = string> = GlideRecordMethods<T> & TableFields<T>;
+declare var GlideRecord: { new <T extends string>(tableName: T): GlideRecord<T> };
+
+type GlideRecordSecure<T extends string = string> = GlideRecord<T>;
+declare var GlideRecordSecure: { new <T extends string>(tableName: T): GlideRecordSecure<T> };
+`;
+
+// JSDoc type names and their TypeScript equivalents; anything else becomes any (the JSDoc keeps the original)
+const JSDOC_TYPES: { [jsDocType: string]: string } = {
+    'string': 'string',
+    'String': 'string',
+    'number': 'number',
+    'Number': 'number',
+    'integer': 'number',
+    'boolean': 'boolean',
+    'Boolean': 'boolean',
+    'object': 'object',
+    'Object': 'object',
+    'function': 'Function',
+    'Function': 'Function',
+    'void': 'void',
+    'undefined': 'undefined',
+    'null': 'null',
+    'GlideRecord': 'GlideRecord',
+    'GlideElement': 'GlideElement',
+    'Array': 'any[]',
+    'array': 'any[]',
+};
+
+const isIdentifier = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name);
+const propertyKey = (name: string) => (isIdentifier(name) ? name : JSON.stringify(name));
+const escapeComment = (text: string) => text.replace(/\*\//g, '*\\/');
+
+/**
+ * Maps a JSDoc type (string, Array.<string>, number|null, GlideRecord, ...) to a TypeScript type.
+ */
+function toTypeScriptType(jsDocType: string | undefined): string {
+    if (!jsDocType) {
+        return 'any';
+    }
+    const parts = jsDocType.trim().replace(/^\((.*)\)$/, '$1').split('|').map(part => {
+        const type = part.trim().replace(/^[?!]|=$/g, '');
+        const array = type.match(/^Array\.?<(.+)>$/) || type.match(/^(.+)\[\]$/);
+        if (array) {
+            const element = toTypeScriptType(array[1]);
+            return element.includes('|') ? `(${element})[]` : `${element}[]`;
+        }
+        return JSDOC_TYPES[type] ?? 'any';
+    });
+    return parts.includes('any') ? 'any' : Array.from(new Set(parts)).join(' | ');
+}
+
+function renderDocComment(lines: string[], indent: string): string {
+    const content = lines.flatMap(line => line.split('\n')).map(line => escapeComment(line).trimEnd());
+    if (content.length === 0) {
+        return '';
+    }
+    if (content.length === 1) {
+        return `${indent}/** ${content[0]} */\n`;
+    }
+    return `${indent}/**\n${content.map(line => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`;
+}
+
+function fieldType(field: FieldSchema, choices: string[] | undefined): string {
+    if (field.type === 'reference' && field.referenceTable) {
+        return `GlideElementReference<${JSON.stringify(field.referenceTable)}>`;
+    }
+    if (field.type === 'boolean') {
+        return `GlideElement<"true" | "false">`;
+    }
+    if (choices && choices.length > 0) {
+        return `GlideElement<${choices.map(value => JSON.stringify(value)).join(' | ')}>`;
+    }
+    return 'GlideElement';
+}
+
+function renderTable(schema: TableSchema, choices: Map<string, string[]>): string {
+    const indent = '        ';
+    const fields = schema.fields
+        .slice()
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(field => {
+            const details = [
+                field.type === 'reference' && field.referenceTable ? `reference to ${field.referenceTable}` : field.type,
+                field.mandatory ? 'mandatory' : '',
+                field.readOnly ? 'read-only' : '',
+            ].filter(Boolean).join(', ');
+            const doc = renderDocComment([`${field.label} (${details})${field.description ? ` - ${field.description}` : ''}`], indent);
+            return `${doc}${indent}${propertyKey(field.name)}: ${fieldType(field, choices.get(field.name))};`;
+        });
+    const extendsNote = schema.hierarchy.length > 1 ? `, extends ${schema.hierarchy.slice(1).join(' > ')}` : '';
+    return `${renderDocComment([`${schema.label} (${schema.name}${extendsNote})`], '    ')}    ${propertyKey(schema.name)}: {\n${fields.join('\n')}\n    };`;
+}
+
+function renderFunctionDoc(fn: ScriptIncludeFunction, indent: string): string {
+    const lines: string[] = [];
+    if (fn.jsDoc) {
+        lines.push(fn.jsDoc);
+    }
+    if (fn.inheritedFrom) {
+        lines.push(`Inherited from ${fn.inheritedFrom}.`);
+    }
+    for (const parameter of fn.parameters) {
+        if (parameter.type || parameter.description) {
+            lines.push(`@param ${parameter.type ? `{${parameter.type}} ` : ''}${parameter.name}${parameter.description ? ` ${parameter.description}` : ''}`);
+        }
+    }
+    if (fn.returns && !fn.isConstructor) {
+        lines.push(`@returns ${fn.returns.type ? `{${fn.returns.type}} ` : ''}${fn.returns.description || ''}`.trimEnd());
+    }
+    if (fn.isPrivate) {
+        lines.push('@private');
+    }
+    return renderDocComment(lines, indent);
+}
+
+function renderSignature(fn: ScriptIncludeFunction): string {
+    // A required parameter cannot follow an optional one
+    let optional = false;
+    const parameters = fn.parameters.map((parameter, index) => {
+        optional = optional || !!parameter.optional;
+        const name = isIdentifier(parameter.name) ? parameter.name : `arg${index}`;
+        return `${name}${optional ? '?' : ''}: ${toTypeScriptType(parameter.type)}`;
+    });
+    return `(${parameters.join(', ')})`;
+}
+
+function renderScriptInclude(api: ScriptIncludeAPIResult): string {
+    const [namespace, ...rest] = api.apiName.split('.');
+    const scoped = rest.length > 0 && namespace !== 'global';
+    const indent = scoped ? '    ' : '';
+    const keyword = scoped ? '' : 'declare ';
+    const header = [
+        `Script Include ${api.apiName}${api.clientCallable ? ' (client callable)' : ''}.`,
+        ...(api.extends ? [`Extends ${api.extends}.`] : []),
+    ];
+
+    let body: string;
+    if (api.kind === 'function') {
+        const fn = api.functions[0];
+        body = `${renderDocComment([...header, ...(fn?.jsDoc ? [fn.jsDoc] : [])], indent)}${indent}${keyword}function ${api.name}${fn ? renderSignature(fn) : '(...args: any[])'}: ${toTypeScriptType(fn?.returns?.type)};`;
+    } else {
+        const memberIndent = `${indent}    `;
+        const members = api.functions.map(fn => {
+            const doc = renderFunctionDoc(fn, memberIndent);
+            if (fn.isConstructor) {
+                return api.kind === 'class' ? `${doc}${memberIndent}constructor${renderSignature(fn)};` : '';
+            }
+            return `${doc}${memberIndent}${propertyKey(fn.name)}${renderSignature(fn)}: ${toTypeScriptType(fn.returns?.type)};`;
+        }).filter(Boolean);
+        const declaration = api.kind === 'class' ? `${keyword}class ${api.name} {` : `${keyword}const ${api.name}: {`;
+        const end = api.kind === 'class' ? '}' : '};';
+        body = `${renderDocComment(header, indent)}${indent}${declaration}\n${members.join('\n')}\n${indent}${end}`;
+    }
+
+    return scoped ? `declare namespace ${namespace} {\n${body}\n}` : body;
+}
+
+/**
+ * Loads the active choice values of every field of a table. Choices defined on the table itself win over
+ * those of the parent table that defines the field (e.g., incident.state over task.state).
+ */
+async function getTableChoices(schema: TableSchema, instance?: string): Promise<{ choices: Map<string, string[]>; truncated: boolean }> {
+    const client = getAuthenticatedClient(instance);
+    const response = await client.getPaginated<{ name: string; element: string; value: string }>('/table/sys_choice', {
+        sysparm_query: new QueryBuilder().where('name', 'IN', schema.hierarchy).where('inactive', '=', false).orderBy('sequence').build(),
+        sysparm_fields: 'name,element,value',
+    });
+
+    const choices = new Map<string, string[]>();
+    for (const table of schema.hierarchy) {
+        for (const choice of response.records.filter(record => record.name === table)) {
+            const values = choices.get(`${table}.${choice.element}`) || [];
+            if (!values.includes(choice.value)) {
+                values.push(choice.value);
+            }
+            choices.set(`${table}.${choice.element}`, values);
+        }
+    }
+
+    const nearest = new Map<string, string[]>();
+    for (const field of schema.fields) {
+        const table = schema.hierarchy.find(name => choices.has(`${name}.${field.name}`));
+        if (table) {
+            nearest.set(field.name, choices.get(`${table}.${field.name}`) as string[]);
+        }
+    }
+    return { choices: nearest, truncated: response.truncated };
+}
+
+/**
+ * Generates TypeScript declaration files for editor IntelliSense: a field map per table, so that
+ * new GlideRecord('incident') is typed as GlideRecord<'incident'>, with reference fields typed to their target
+ * table and choice fields typed as unions of their values; and declarations for Script Includes with their
+ * JSDoc carried over.
+ */
+export async function generateTypings(args: GenerateTypingsArgs): Promise<GeneratedTypings> {
+    const { tables = [], scriptIncludes = [], instance } = args;
+
+    if (tables.length === 0 && scriptIncludes.length === 0) {
+        throw new Error('At least one table or Script Include must be provided.');
+    }
+
+    const warnings: string[] = [];
+    const header = `// Generated by mcp-sn generate-typings on ${new Date().toISOString()}. Do not edit; regenerate instead.\n`;
+
+    const renderedTables: string[] = [];
+    for (const tableName of tables) {
+        const schema = await getTableSchema(tableName, instance);
+        if (!schema) {
+            warnings.push(`Table '${tableName}' was not found.`);
+            continue;
+        }
+        if (schema.truncated) {
+            warnings.push(`The dictionary of '${schema.name}' was truncated; some fields are missing.`);
+        }
+        const { choices, truncated } = await getTableChoices(schema, instance);
+        if (truncated) {
+            warnings.push(`The choice lists of '${schema.name}' were truncated; some choice fields are typed as plain strings or miss values.`);
+        }
+        renderedTables.push(renderTable(schema, choices));
+    }
+
+    const reference = `/// <reference path="./${GLIDE_FILE_NAME}" />\n`;
+    const files: TypingsFile[] = [{ name: GLIDE_FILE_NAME, content: `${header}\n${BASE_DECLARATIONS}` }];
+    if (renderedTables.length > 0) {
+        files.push({
+            name: TABLES_FILE_NAME,
+            content: `${header}${reference}\ninterface ServiceNowTables {\n${renderedTables.join('\n\n')}\n}\n`,
+        });
+    }
+
+    const renderedIncludes: string[] = [];
+    for (const name of scriptIncludes) {
+        try {
+            const api = await getScriptIncludeApi(name, instance);
+            if (api.kind === 'unknown') {
+                warnings.push(`No class, object or function was found in Script Include '${api.apiName}'; it is not declared.`);
+                continue;
+            }
+            renderedIncludes.push(renderScriptInclude(api));
+        } catch (error: any) {
+            warnings.push(`Script Include '${name}' could not be read: ${error.message}`);
+        }
+    }
+    if (renderedIncludes.length > 0) {
+        files.push({
+            name: SCRIPT_INCLUDES_FILE_NAME,
+            content: `${header}${reference}\n${renderedIncludes.join('\n\n')}\n`,
+        });
+    }
+
+    return { files, warnings };
+}
@@ -1,4 +1,6 @@
 import { ServiceNowService, getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { PaginatedResult } from '../types.js';
 
 // Interface for the detailed information returned for an ACL
 interface AclDetails {
@@ -19,61 +21,65 @@ interface GetAclDetailsArgs {
     aclNameOrTable: string;
     operation?: string;
     type?: string;
+    instance?: string; // Optional instance (profile) name
+}
+
+// Raw value of a field read with sysparm_display_value 'all'
+function valueOf(field: any): string {
+    return field !== null && typeof field === 'object' ? field.value : field;
 }
 
 export async function getAclDetails(
     args: GetAclDetailsArgs
-): Promise<AclDetails[]> {
+): Promise<PaginatedResult<AclDetails>> {
 
-    const { aclNameOrTable, operation, type } = args;
-    const client = getAuthenticatedClient();
+    const { aclNameOrTable, operation, type, instance } = args;
+    const client = getAuthenticatedClient(instance);
 
     // Construct the base query for name/table.
     // Searches for exact name OR name starts with table.
-    const nameQuery = `name=${aclNameOrTable}^ORnameSTARTSWITH${aclNameOrTable}.`;
-
-    const queryParts: string[] = [nameQuery];
+    const query = new QueryBuilder()
+        .where('name', '=', aclNameOrTable)
+        .orWhere('name', 'STARTSWITH', `${aclNameOrTable}.`);
 
     // Add optional filters
     if (operation) {
-        queryParts.push(`operation=${operation}`);
+        query.where('operation', '=', operation);
     }
     if (type) {
-        queryParts.push(`type=${type}`);
+        query.where('type', '=', type);
     }
 
-    const sysparm_query = queryParts.join('^');
+    const sysparm_query = query.build();
 
     // Define fields to retrieve
     const sysparm_fields = 'name,type,operation,admin_overrides,active,description,script,roles,sys_scope.scope,sys_scope.name,sys_updated_on,sys_id';
 
     try {
-        const response = await client.get<{ result: any[] }>('/table/sys_security_acl', {
-            params: {
-                sysparm_query,
-                sysparm_fields,
-                sysparm_limit: 100,
-                sysparm_display_value: 'all'
-            },
+        const response = await client.getPaginated('/table/sys_security_acl', {
+            sysparm_query,
+            sysparm_fields,
+            sysparm_display_value: 'all'
         });
 
-        const results = response.result || [];
-
-        // Map results to the details interface
-        return results.map((acl: any): AclDetails => ({
-            name: acl.name,
-            type: acl.type?.value || acl.type,
-            operation: acl.operation?.value || acl.operation,
-            admin_overrides: acl.admin_overrides === 'true',
-            active: acl.active === 'true',
-            description: acl.description,
-            condition_script: acl.script,
-            roles: acl.roles?.display_value || acl.roles?.value || '' ,
-            scope: acl.sys_scope?.scope?.value || acl.sys_scope?.name?.value || 'Global',
-            updated_on: acl.sys_updated_on?.value || acl.sys_updated_on,
-            sys_id: acl.sys_id,
+        // Map results to the details interface. With sysparm_display_value 'all' every field, dot-walked ones
+        // included (keyed 'sys_scope.scope'), is a { value, display_value } pair; raw values are used except for roles
+        const records = response.records.map((acl: any): AclDetails => ({
+            name: valueOf(acl.name),
+            type: valueOf(acl.type),
+            operation: valueOf(acl.operation),
+            admin_overrides: valueOf(acl.admin_overrides) === 'true',
+            active: valueOf(acl.active) === 'true',
+            description: valueOf(acl.description) || null,
+            condition_script: valueOf(acl.script) || null,
+            roles: acl.roles?.display_value || valueOf(acl.roles) || '',
+            scope: valueOf(acl['sys_scope.scope']) || valueOf(acl['sys_scope.name']) || 'Global',
+            updated_on: valueOf(acl.sys_updated_on),
+            sys_id: valueOf(acl.sys_id),
         }));
 
+        return { ...response, records };
+
     } catch (error) {
         // console.error(`Error fetching ACL details for query '${sysparm_query}':`, error);
         throw error;
@@ -1,8 +1,12 @@
 import { ServiceNowService, getAuthenticatedClient } from '../services/serviceNowService.js';
 import { AxiosRequestConfig } from 'axios';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { describeEncodedQuery } from '../services/encodedQuery.js';
+import { PaginatedResult } from '../types.js';
+import { findScriptReferences, ScriptReferences } from './scriptReferences.js';
 
 // Interface for the detailed information returned
-interface BusinessRuleDetails {
+export interface BusinessRuleDetails {
     name: string;
     table: string | null;
     when: string; // e.g., before, after, async, display
@@ -13,45 +17,78 @@ interface BusinessRuleDetails {
     delete: boolean;
     query: boolean;
     condition: string | null; // Condition script or builder string
+    filterCondition: string | null; // Encoded query from the condition builder (When to run > Filter Conditions)
+    roleConditions: string[]; // Role names the current user must have for the rule to run
+    abortAction: boolean;
+    addMessage: boolean;
+    priority: number | null; // Queue priority of async rules
     scope: string; // Scope name/label
     updated_on: string;
     sys_id: string;
+    // Only present with includeScript
+    script?: string;
+    filterConditionDescription?: string | null; // filterCondition as readable text
+    references?: ScriptReferences; // GlideRecord tables, Script Includes, properties and events used by the script
 }
 
 interface FindBusinessRulesArgs {
     businessRuleName?: string;
     tableName?: string;
+    scopeName?: string; // Technical name or label of the application scope
+    includeScript?: boolean; // Also return the script body, decoded filter and script references
+    instance?: string; // Optional instance (profile) name
+}
+
+/**
+ * Resolves role sys_ids (role_conditions is a list of sys_user_role references) to role names.
+ */
+async function getRoleNames(client: ServiceNowService, roleSysIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    if (roleSysIds.length === 0) {
+        return names;
+    }
+    const response = await client.getPaginated<{ sys_id: string; name: string }>('/table/sys_user_role', {
+        sysparm_query: new QueryBuilder().where('sys_id', 'IN', roleSysIds).build(),
+        sysparm_fields: 'sys_id,name',
+    });
+    for (const role of response.records) {
+        names.set(role.sys_id, role.name);
+    }
+    return names;
 }
 
 // Renamed function to reflect capability
 export async function findBusinessRules(
     args: FindBusinessRulesArgs
-): Promise<BusinessRuleDetails[]> { // Always return an array
+): Promise<PaginatedResult<BusinessRuleDetails>> { // Always return a (possibly empty) list
 
-    const { businessRuleName, tableName } = args;
+    const { businessRuleName, tableName, scopeName, includeScript, instance } = args;
 
     // Validate input: require at least one identifier
-    if (!businessRuleName && !tableName) {
-        throw new Error('Either businessRuleName or tableName must be provided.');
+    if (!businessRuleName && !tableName && !scopeName) {
+        throw new Error('Either businessRuleName, tableName or scopeName must be provided.');
     }
 
     // Get the authenticated client instance
-    const client = getAuthenticatedClient();
+    const client = getAuthenticatedClient(instance);
 
     // Construct query based on provided input
-    const queryParts: string[] = [
-        'collectionISNOTEMPTY' // Standard filter for Business Rules
-    ];
+    const query = new QueryBuilder()
+        .where('collection', 'ISNOTEMPTY'); // Standard filter for Business Rules
     if (businessRuleName) {
-        queryParts.push(`name=${businessRuleName}`);
+        query.where('name', '=', businessRuleName);
     }
     if (tableName) {
-        queryParts.push(`collection=${tableName}`);
+        query.where('collection', '=', tableName);
     }
-    const sysparm_query = queryParts.join('^');
+    if (scopeName) {
+        query.where('sys_scope.scope', '=', scopeName).orWhere('sys_scope.name', '=', scopeName);
+    }
+    const sysparm_query = query.build();
 
-    // Define fields to retrieve (remove 'script')
-    const sysparm_fields = 'name,collection,when,order,active,action_insert,action_update,action_delete,action_query,condition,sys_scope.scope,sys_scope.name,sys_updated_on,sys_id';
+    // Define fields to retrieve; the script body is only fetched on request
+    const sysparm_fields = 'name,collection,when,order,active,action_insert,action_update,action_delete,action_query,condition,filter_condition,role_conditions,abort_action,add_message,priority,sys_scope.scope,sys_scope.name,sys_updated_on,sys_id'
+        + (includeScript ? ',script' : '');
 
     // Configure request parameters
     const params: AxiosRequestConfig['params'] = {
@@ -61,22 +98,22 @@ export async function findBusinessRules(
     };
 
     // Adjust limit and ordering based on search type
-    if (tableName && !businessRuleName) {
-        // Table search: order by execution order, higher limit
+    let maxRecords: number | undefined;
+    if ((tableName || scopeName) && !businessRuleName) {
+        // Table or scope search: order by execution order, fetch all pages up to the server cap
         params.sysparm_orderby = 'order';
-        params.sysparm_limit = 50; // Allow more results for table search
     } else if (businessRuleName && !tableName) {
         // Name-only search: limit to 2 to detect ambiguity
-        params.sysparm_limit = 2;
+        maxRecords = 2;
     } else {
         // Specific name and table search: limit to 1
-        params.sysparm_limit = 1;
+        maxRecords = 1;
     }
 
     try {
-        const response = await client.get<{ result: any[] }>('/table/sys_script', { params });
+        const response = await client.getPaginated('/table/sys_script', params, { maxRecords });
 
-        const results = response.result || [];
+        const results = response.records;
 
         // Handle ambiguity for name-only search
         if (businessRuleName && !tableName && results.length > 1) {
@@ -85,8 +122,11 @@ export async function findBusinessRules(
             throw new Error(`Multiple Business Rules found with name \'${businessRuleName}\'. Please specify the tableName to disambiguate.`);
         }
 
+        const roleSysIdsOf = (rule: any): string[] => (rule.role_conditions ? String(rule.role_conditions).split(',').filter(Boolean) : []);
+        const roleNames = await getRoleNames(client, Array.from(new Set(results.flatMap(roleSysIdsOf))));
+
         // Map results to the details interface
-        return results.map((rule: any): BusinessRuleDetails => ({
+        const records = results.map((rule: any): BusinessRuleDetails => ({
             name: rule.name,
             table: rule.collection,
             when: rule.when,
@@ -97,11 +137,23 @@ export async function findBusinessRules(
             delete: rule.action_delete === 'true',
             query: rule.action_query === 'true',
             condition: rule.condition,
+            filterCondition: rule.filter_condition || null,
+            roleConditions: roleSysIdsOf(rule).map(sysId => roleNames.get(sysId) || sysId),
+            abortAction: rule.abort_action === 'true',
+            addMessage: rule.add_message === 'true',
+            priority: rule.priority ? parseInt(rule.priority, 10) : null,
             scope: rule['sys_scope.scope'] || rule['sys_scope.name'] || 'Global',
             updated_on: rule.sys_updated_on,
             sys_id: rule.sys_id,
+            ...(includeScript ? {
+                script: rule.script || '',
+                filterConditionDescription: rule.filter_condition ? describeEncodedQuery(rule.filter_condition) : null,
+                references: findScriptReferences(rule.script || ''),
+            } : {}),
         }));
 
+        return { ...response, records };
+
     } catch (error) {
         // Re-throw specific ambiguity error, otherwise log and re-throw general error
         if (error instanceof Error && error.message.startsWith('Multiple Business Rules found')) {
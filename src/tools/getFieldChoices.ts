@@ -2,9 +2,11 @@ import {
     ValueDisplayValue,
     SysChoiceResponse,
     SysChoiceRecord,
-    FieldChoice // Added for the return type
+    FieldChoice, // Added for the return type
+    PaginatedResult
 } from "../types.js";
 import { ServiceNowService, getAuthenticatedClient } from "../services/serviceNowService.js";
+import { QueryBuilder } from "../services/queryBuilder.js";
 
 /**
  * Fetches the available choices for a specific field on a specific ServiceNow table.
@@ -15,41 +17,45 @@ import { ServiceNowService, getAuthenticatedClient } from "../services/serviceNo
  *
  * @param tableName The technical name of the ServiceNow table (e.g., 'incident').
  * @param fieldName The technical name of the field (element) on the table (e.g., 'state').
- * @returns A promise that resolves to an array of FieldChoice objects sorted by label, or null if the field/table has no choices or an error occurs.
+ * @param instance Optional instance (profile) name; the default instance is used when omitted.
+ * @returns A promise that resolves to the FieldChoice objects sorted by sequence (with truncation info), or null if an error occurs.
  */
 export async function getFieldChoices(
     tableName: string,
-    fieldName: string
-): Promise<FieldChoice[] | null> {
+    fieldName: string,
+    instance?: string
+): Promise<PaginatedResult<FieldChoice> | null> {
     // Get authenticated client
-    const client = getAuthenticatedClient();
+    const client = getAuthenticatedClient(instance);
 
     try {
         // Construct the query for sys_choice table
-        const sysparm_query = `name=${tableName}^element=${fieldName}^inactive=false`;
+        const sysparm_query = new QueryBuilder()
+            .where('name', '=', tableName)
+            .where('element', '=', fieldName)
+            .where('inactive', '=', false)
+            .build();
         // Fetch value and label, sort by sequence
         const sysparm_fields = 'value,label,sequence';
         const sysparm_orderby = 'sequence';
 
         // Use the authenticated client
-        const response = await client.get<{ result: any[] }>('/table/sys_choice', {
-            params: {
-                sysparm_query,
-                sysparm_fields,
-                sysparm_orderby,
-                sysparm_exclude_reference_link: true,
-                sysparm_limit: 1000 // High limit for choices
-            },
+        const response = await client.getPaginated('/table/sys_choice', {
+            sysparm_query,
+            sysparm_fields,
+            sysparm_orderby,
+            sysparm_exclude_reference_link: true,
         });
 
-        const results = response.result || [];
-
         // Map the results to the FieldChoice interface
-        return results.map((choice: any): FieldChoice => ({
-            value: choice.value,
-            label: choice.label,
-            // sequence: parseInt(choice.sequence, 10) || 0 // Sequence might be useful later
-        }));
+        return {
+            ...response,
+            records: response.records.map((choice: any): FieldChoice => ({
+                value: choice.value,
+                label: choice.label,
+                // sequence: parseInt(choice.sequence, 10) || 0 // Sequence might be useful later
+            })),
+        };
 
     } catch (error) {
         // Comment out error log
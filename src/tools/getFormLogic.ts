@@ -0,0 +1,204 @@
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { getTableAncestors } from './getTableSchema.js';
+
+interface GetFormLogicArgs {
+    tableName: string;
+    view?: string; // Form view name (e.g., 'ess'); only logic for all views or this view is returned
+    instance?: string; // Optional instance (profile) name
+}
+
+interface ClientScriptDetails {
+    name: string;
+    table: string;
+    type: string; // onLoad, onChange, onSubmit, onCellEdit
+    field: string | null; // Field watched by onChange / onCellEdit scripts
+    order: number | null;
+    uiType: string; // Desktop, Mobile / Service Portal or All
+    view: string | null; // null when the script runs on all views
+    inherited: boolean; // Defined on a parent table and applied to extended tables
+    script: string;
+    sys_id: string;
+}
+
+interface UiPolicyActionDetails {
+    field: string;
+    visible: string; // 'true', 'false' or 'ignore' (leave alone)
+    mandatory: string;
+    readOnly: string;
+    cleared: boolean;
+}
+
+interface UiPolicyDetails {
+    name: string; // Short description
+    table: string;
+    condition: string | null; // Encoded query
+    order: number | null;
+    onLoad: boolean;
+    reverseIfFalse: boolean;
+    view: string | null;
+    inherited: boolean;
+    actions: UiPolicyActionDetails[];
+    scriptTrue: string | null; // Only when run_scripts is set
+    scriptFalse: string | null;
+    sys_id: string;
+}
+
+interface UiActionDetails {
+    name: string;
+    table: string;
+    actionName: string | null;
+    order: number | null;
+    placement: string[]; // e.g. form button, list context menu
+    condition: string | null;
+    client: boolean; // Runs onclick in the browser (may also run server script via gsftSubmit)
+    onclick: string | null;
+    script: string | null; // Server-side script
+    inherited: boolean;
+    sys_id: string;
+}
+
+interface FormLogic {
+    table: string;
+    view: string | null;
+    hierarchy: string[];
+    clientScripts: ClientScriptDetails[];
+    uiPolicies: UiPolicyDetails[];
+    uiActions: UiActionDetails[];
+}
+
+const UI_TYPES: { [value: string]: string } = {
+    '0': 'Desktop',
+    '1': 'Mobile / Service Portal',
+    '10': 'All',
+};
+
+// Types in the order the browser runs them
+const CLIENT_SCRIPT_TYPE_ORDER = ['onLoad', 'onChange', 'onCellEdit', 'onSubmit'];
+
+// UI action flags and how they are reported in placement
+const UI_ACTION_PLACEMENTS: [string, string][] = [
+    ['form_button', 'form button'],
+    ['form_context_menu', 'form context menu'],
+    ['form_link', 'form link'],
+    ['list_button', 'list button'],
+    ['list_banner_button', 'list banner button'],
+    ['list_context_menu', 'list context menu'],
+    ['list_choice', 'list choice'],
+    ['list_link', 'list link'],
+];
+
+const toOrder = (value: string | undefined): number | null => (value ? parseInt(value, 10) : null);
+
+/**
+ * Collects the client-side logic of a table's form: client scripts, UI policies with their field actions
+ * and UI actions, including the ones inherited from parent tables.
+ */
+export async function getFormLogic(args: GetFormLogicArgs): Promise<FormLogic> {
+    const { tableName, view, instance } = args;
+
+    const ancestors = await getTableAncestors(tableName, instance);
+    if (ancestors === null) {
+        throw new Error(`Table '${tableName}' not found.`);
+    }
+    const hierarchy = ancestors.map(a => a.name);
+    const actualTableName = hierarchy[0];
+    const isInherited = (table: string) => table !== actualTableName;
+    // Global logic applies to every view; view-specific logic only when that view was asked for
+    const appliesToView = (record: any) => record.global !== 'false' || !record.view || record.view === view;
+
+    const client = getAuthenticatedClient(instance);
+
+    const [clientScripts, uiPolicies, uiActions] = await Promise.all([
+        client.getPaginated<any>('/table/sys_script_client', {
+            sysparm_query: new QueryBuilder().where('active', '=', true).where('table', 'IN', hierarchy).build(),
+            sysparm_fields: 'name,table,type,field_name,order,ui_type,global,view,applies_extended,script,sys_id',
+            sysparm_display_value: 'false',
+        }),
+        client.getPaginated<any>('/table/sys_ui_policy', {
+            sysparm_query: new QueryBuilder().where('active', '=', true).where('table', 'IN', hierarchy).orderBy('order').build(),
+            sysparm_fields: 'short_description,table,conditions,order,on_load,reverse_if_false,global,view,inherit,run_scripts,script_true,script_false,sys_id',
+            sysparm_display_value: 'false',
+        }),
+        // UI actions on 'global' (Save, Insert, ...) show up on every table
+        client.getPaginated<any>('/table/sys_ui_action', {
+            sysparm_query: new QueryBuilder().where('active', '=', true).where('table', 'IN', [...hierarchy, 'global']).orderBy('order').build(),
+            sysparm_fields: `name,table,action_name,order,condition,client,onclick,script,sys_id,${UI_ACTION_PLACEMENTS.map(([flag]) => flag).join(',')}`,
+            sysparm_display_value: 'false',
+        }),
+    ]);
+
+    const applicableScripts = clientScripts.records
+        .filter(script => !isInherited(script.table) || script.applies_extended === 'true')
+        .filter(script => !view || appliesToView(script));
+
+    const applicablePolicies = uiPolicies.records
+        .filter(policy => !isInherited(policy.table) || policy.inherit === 'true')
+        .filter(policy => !view || appliesToView(policy));
+
+    // Field actions of all applicable UI policies in one request
+    const policyActions = applicablePolicies.length === 0 ? [] : (await client.getPaginated<any>('/table/sys_ui_policy_action', {
+        sysparm_query: new QueryBuilder().where('ui_policy', 'IN', applicablePolicies.map(policy => policy.sys_id)).build(),
+        sysparm_fields: 'ui_policy,field,visible,mandatory,disabled,cleared',
+        sysparm_display_value: 'false',
+    })).records;
+
+    return {
+        table: actualTableName,
+        view: view || null,
+        hierarchy,
+        clientScripts: applicableScripts
+            .map((script): ClientScriptDetails => ({
+                name: script.name,
+                table: script.table,
+                type: script.type,
+                field: script.field_name || null,
+                order: toOrder(script.order),
+                uiType: UI_TYPES[script.ui_type] || script.ui_type,
+                view: script.global === 'false' && script.view ? script.view : null,
+                inherited: isInherited(script.table),
+                script: script.script || '',
+                sys_id: script.sys_id,
+            }))
+            .sort((a, b) =>
+                CLIENT_SCRIPT_TYPE_ORDER.indexOf(a.type) - CLIENT_SCRIPT_TYPE_ORDER.indexOf(b.type)
+                || (a.order ?? 0) - (b.order ?? 0)
+                || String(a.name).localeCompare(String(b.name))
+            ),
+        uiPolicies: applicablePolicies.map((policy): UiPolicyDetails => ({
+            name: policy.short_description,
+            table: policy.table,
+            condition: policy.conditions || null,
+            order: toOrder(policy.order),
+            onLoad: policy.on_load === 'true',
+            reverseIfFalse: policy.reverse_if_false === 'true',
+            view: policy.global === 'false' && policy.view ? policy.view : null,
+            inherited: isInherited(policy.table),
+            actions: policyActions
+                .filter(action => action.ui_policy === policy.sys_id)
+                .map((action): UiPolicyActionDetails => ({
+                    field: action.field,
+                    visible: action.visible,
+                    mandatory: action.mandatory,
+                    readOnly: action.disabled,
+                    cleared: action.cleared === 'true',
+                })),
+            scriptTrue: policy.run_scripts === 'true' ? policy.script_true || null : null,
+            scriptFalse: policy.run_scripts === 'true' ? policy.script_false || null : null,
+            sys_id: policy.sys_id,
+        })),
+        uiActions: uiActions.records.map((action): UiActionDetails => ({
+            name: action.name,
+            table: action.table,
+            actionName: action.action_name || null,
+            order: toOrder(action.order),
+            placement: UI_ACTION_PLACEMENTS.filter(([flag]) => action[flag] === 'true').map(([, label]) => label),
+            condition: action.condition || null,
+            client: action.client === 'true',
+            onclick: action.onclick || null,
+            script: action.script || null,
+            inherited: isInherited(action.table),
+            sys_id: action.sys_id,
+        })),
+    };
+}
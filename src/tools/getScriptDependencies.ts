@@ -0,0 +1,134 @@
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { SCRIPT_TABLES, findScriptTableDefinition } from './scriptRegistry.js';
+import { findScriptReferences, mergeScriptReferences, ScriptReferences } from './scriptReferences.js';
+import { fetchScriptInclude } from './getScriptIncludeApi.js';
+
+interface GetScriptDependenciesArgs {
+    scriptType?: string; // One of the types in SCRIPT_TABLES; defaults to 'script include'
+    name?: string; // Name of the record (nameField of the type)
+    sysId?: string;
+    depth?: number; // Levels of Script Include dependencies to follow (defaults to 1)
+    instance?: string; // Optional instance (profile) name
+}
+
+interface DependencyEdge {
+    from: string; // The analysed script or a Script Include it depends on
+    to: string; // Script Include referenced by 'from'
+}
+
+interface ResolvedScriptInclude {
+    name: string; // As referenced in code, e.g. 'IncidentUtils' or 'global.ArrayUtil'
+    apiName: string;
+    sys_id: string;
+    depth: number; // 1 for Script Includes the script references directly
+    references: ScriptReferences;
+}
+
+interface ScriptDependencies {
+    name: string;
+    type: string;
+    table: string | null; // Table the code runs on, for types bound to a table
+    sys_id: string;
+    references: ScriptReferences; // What the script itself references, across all its script fields
+    dependencies: ResolvedScriptInclude[]; // Script Includes reached when following references up to depth
+    edges: DependencyEdge[];
+    missing: string[]; // Referenced names without a matching Script Include (unknown platform APIs or typos)
+    warnings: string[];
+}
+
+const DEFAULT_DEPTH = 1;
+const MAX_DEPTH = 3;
+
+/**
+ * Parses a script record and reports the Script Includes it instantiates or calls, the tables it queries,
+ * the system properties it reads and the events it queues. With depth > 1, the Script Includes it references
+ * are analysed in turn, which yields a dependency graph.
+ */
+export async function getScriptDependencies(args: GetScriptDependenciesArgs): Promise<ScriptDependencies> {
+    const { name, sysId, instance } = args;
+    const scriptType = args.scriptType || 'script include';
+
+    if (!name && !sysId) {
+        throw new Error('Either name or sysId must be provided.');
+    }
+    const definition = findScriptTableDefinition(scriptType);
+    if (!definition) {
+        throw new Error(`Invalid scriptType specified: '${scriptType}'. Valid types are: ${SCRIPT_TABLES.map(d => d.type).join(', ')}.`);
+    }
+    const { table, typeLabel, nameField, scriptFields, tableField } = definition;
+    const maxDepth = Math.min(Math.max(args.depth ?? DEFAULT_DEPTH, 1), MAX_DEPTH);
+
+    const client = getAuthenticatedClient(instance);
+    const query = sysId
+        ? new QueryBuilder().where('sys_id', '=', sysId)
+        : new QueryBuilder().where(nameField, '=', name as string).orderByDesc('sys_updated_on');
+    const response = await client.get<{ result: any[] }>(`/table/${table}`, {
+        params: {
+            sysparm_query: query.build(),
+            sysparm_fields: [nameField, 'sys_id', 'sys_scope.scope', ...scriptFields, ...(tableField ? [tableField] : [])].join(','),
+            sysparm_display_value: 'false',
+            sysparm_limit: 10,
+        },
+    });
+    const records = response.result || [];
+    if (records.length === 0) {
+        throw new Error(`${typeLabel} '${sysId || name}' not found.`);
+    }
+
+    const warnings: string[] = [];
+    if (records.length > 1) {
+        warnings.push(`${records.length} records of type ${typeLabel} are named '${name}'; analysed the most recently updated one (${records[0].sys_id}). Pass sysId to pick another.`);
+    }
+    const record = records[0];
+    const rootName: string = record[nameField];
+    const references = mergeScriptReferences(scriptFields.map(field => findScriptReferences(record[field] || '')));
+
+    // Breadth-first over referenced Script Includes; each one is fetched and parsed once
+    const dependencies: ResolvedScriptInclude[] = [];
+    const edges: DependencyEdge[] = [];
+    const missing = new Set<string>();
+    const visited = new Set<string>([rootName]);
+    let frontier: { name: string; references: ScriptReferences }[] = [{ name: rootName, references }];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+        const next: typeof frontier = [];
+        for (const node of frontier) {
+            for (const referenced of node.references.scriptIncludes) {
+                edges.push({ from: node.name, to: referenced });
+                if (visited.has(referenced)) {
+                    continue;
+                }
+                visited.add(referenced);
+
+                const scriptInclude = await fetchScriptInclude(client, referenced, record['sys_scope.scope']);
+                if (!scriptInclude) {
+                    missing.add(referenced);
+                    continue;
+                }
+                const includeReferences = findScriptReferences(scriptInclude.script || '');
+                dependencies.push({
+                    name: referenced,
+                    apiName: scriptInclude.api_name,
+                    sys_id: scriptInclude.sys_id,
+                    depth,
+                    references: includeReferences,
+                });
+                next.push({ name: referenced, references: includeReferences });
+            }
+        }
+        frontier = next;
+    }
+
+    return {
+        name: rootName,
+        type: typeLabel,
+        table: (tableField && record[tableField]) || null,
+        sys_id: record.sys_id,
+        references,
+        dependencies,
+        edges,
+        missing: Array.from(missing).sort(),
+        warnings,
+    };
+}
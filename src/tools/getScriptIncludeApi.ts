@@ -1,205 +1,336 @@
 import { ServiceNowService, getAuthenticatedClient } from '../services/serviceNowService.js';
-// import { URL } from 'url'; // Import URL for parsing
+import { QueryBuilder } from '../services/queryBuilder.js';
 import ts from 'typescript';
 
-// Define the interface for the expected result from the ServiceNow API
-interface ScriptIncludeRecord {
-    result: {
-        script?: string;
-        sys_id?: string;
-        name?: string;
-        api_name?: string; // Added api_name
-        // Add other relevant fields if needed
-    }[];
+export interface ScriptIncludeRecord {
+    name: string;
+    api_name: string; // e.g., global.IncidentUtils or x_acme_app.Helper
+    script: string;
+    client_callable: string;
+    access: string;
+    sys_id: string;
+    'sys_scope.scope': string;
 }
 
-interface ScriptIncludeApiResult {
-    functionName: string;
-    parameters: string[];
-    jsdoc?: string;
+export interface ScriptIncludeParameter {
+    name: string;
+    type?: string; // From the @param tag
+    description?: string;
+    optional?: boolean; // Has a default value, or is declared as [name] in JSDoc
 }
 
-// Regular expression to find JSDoc blocks followed by function definitions
-// This is a simplified regex for POC and might need refinement for edge cases
-// It looks for /** ... */ blocks followed by function declarations or assignments
-const functionRegex = /\/\*\*\s*\n([^*]|(\*(?!\/)))*?\*\/\s*([\w.]+)\s*[:=]\s*function\s*\(([^)]*)\)/g;
-
-// Simpler regex for functions without explicit JSDoc (might capture inner functions)
-const functionWithoutJsDocRegex = /([\w.]+)\s*[:=]\s*function\s*\(([^)]*)\)/g;
-
-// New: JSDoc + Object property function ( key: function() )
-const objectFunctionRegex = /\/\*\*\s*\n([^*]|(\*(?!\/)))*?\*\/\s*(\w+)\s*:\s*function\s*\(([^)]*)\)/g;
-
-// New: Object property function without JSDoc
-const objectFunctionWithoutJsDocRegex = /(\w+)\s*:\s*function\s*\(([^)]*)\)/g;
+export interface ScriptIncludeFunction {
+    name: string;
+    parameters: ScriptIncludeParameter[];
+    returns?: { type?: string; description?: string }; // From the @returns (or @return) tag
+    jsDoc?: string; // Description part of the JSDoc comment
+    isConstructor: boolean; // initialize for Class.create() classes, constructor for ES classes
+    isPrivate: boolean; // _-prefixed by convention; GlideAjax cannot call these
+    inheritedFrom?: string; // API name of the Script Include the method is inherited from
+}
 
-// Regex to extract parameters from the matched parameter string
-const paramsRegex = /\/\*.*?\*\/\s*([\w]+)|\b([\w]+)\b/g;
+type ScriptIncludeKind = 'class' | 'object' | 'function' | 'unknown';
 
-interface ScriptIncludeFunction {
+export interface ScriptIncludeAPIResult {
+    apiName: string; // e.g., global.IncidentUtils
     name: string;
-    parameters: string[];
-    jsDoc?: string;
-    // Add line numbers? Range?
+    sys_id: string;
+    kind: ScriptIncludeKind; // Class.create()/prototype or ES class, object literal, or a function called directly
+    extends: string | null; // Parent from Object.extendsObject(...) or an ES class heritage clause
+    clientCallable: boolean; // Callable from the browser through GlideAjax
+    access: string; // 'public' (all application scopes) or 'package_private' (this scope only)
+    functions: ScriptIncludeFunction[];
+    warnings: string[]; // e.g., a parent that could not be found
 }
 
-interface ScriptIncludeAPIResult {
-    apiName: string; // e.g., IncidentUtils
-    scriptContent?: string; // Optionally return full script
+interface ParsedScriptInclude {
+    kind: ScriptIncludeKind;
+    parent: string | null;
     functions: ScriptIncludeFunction[];
 }
 
-// Renamed and exported function
-export async function getScriptIncludeApi(
-    scriptIncludeName: string
-    // connectionString: string
-): Promise<ScriptIncludeAPIResult> {
+interface ParsedJsDoc {
+    description?: string;
+    params: Map<string, ScriptIncludeParameter>;
+    returns?: { type?: string; description?: string };
+}
 
-    // Remove connection string parsing and client instantiation
-    /*
-    let parsedUrl;
-    try {
-        parsedUrl = new URL(connectionString);
-    } catch (e) {
-        console.error('Invalid connection string format for getScriptIncludeApi', e);
-        throw new Error('Invalid connection string format.');
-    }
-    const instanceUrl = parsedUrl.origin;
-    const username = parsedUrl.username;
-    const password = parsedUrl.password;
+const SCRIPT_INCLUDE_FIELDS = 'name,api_name,script,client_callable,access,sys_id,sys_scope.scope';
+
+// Object.extendsObject chains are short; the limit only guards against cycles through renamed records
+const MAX_INHERITANCE_DEPTH = 5;
+
+// @param {Type} name description, @param {Type} [name=default] - description
+const PARAM_TAG = /^@(?:param|arg|argument)\s+(?:\{(.*?)\}\s*)?(\[[^\]]*\]|[\w$.]+)\s*(?:-\s*)?(.*)$/;
+const RETURNS_TAG = /^@returns?\s*(?:\{(.*?)\}\s*)?(?:-\s*)?(.*)$/;
+
+/**
+ * Splits a JSDoc comment into its description and its @param / @returns tags.
+ * Tag descriptions may continue on the following lines.
+ */
+function parseJsDoc(comment: string): ParsedJsDoc {
+    const lines = comment
+        .replace(/^\/\*\*/, '')
+        .replace(/\*\/$/, '')
+        .split('\n')
+        .map(line => line.replace(/^\s*\* ?/, '').trimEnd());
 
-    if (!username || !password) {
-        throw new Error('Username and password must be included in the connection string.');
+    const description: string[] = [];
+    const tags: string[] = [];
+    for (const line of lines) {
+        if (line.trim().startsWith('@')) {
+            tags.push(line.trim());
+        } else if (tags.length > 0) {
+            if (line.trim()) {
+                tags[tags.length - 1] += ` ${line.trim()}`;
+            }
+        } else {
+            description.push(line);
+        }
     }
-    const client = new ServiceNowService({
-        instanceUrl,
-        auth: { username, password }
-    });
-    */
-
-    // Get authenticated client
-    const client = getAuthenticatedClient();
-
-    // Fetch the Script Include record
-    let scriptContent = '';
-    try {
-        const response = await client.get<{ result: { script: string, api_name: string }[] }>('/table/sys_script_include', {
-            params: {
-                sysparm_query: `api_name=${scriptIncludeName}`,
-                sysparm_fields: 'script,api_name',
-                sysparm_limit: 1,
-            },
-        });
 
-        if (!response.result || response.result.length === 0) {
-            throw new Error(`Script Include '${scriptIncludeName}' not found.`);
+    const params = new Map<string, ScriptIncludeParameter>();
+    let returns: ParsedJsDoc['returns'];
+    for (const tag of tags) {
+        const param = tag.match(PARAM_TAG);
+        if (param) {
+            const optional = param[2].startsWith('[');
+            const name = optional ? param[2].slice(1, -1).split('=')[0].trim() : param[2];
+            params.set(name, {
+                name,
+                type: param[1] || undefined,
+                description: param[3] || undefined,
+                optional: optional || undefined,
+            });
+            continue;
+        }
+        const returnsTag = tag.match(RETURNS_TAG);
+        if (returnsTag) {
+            returns = { type: returnsTag[1] || undefined, description: returnsTag[2] || undefined };
         }
-        scriptContent = response.result[0].script;
-        // We already have the api_name, but could verify it matches:
-        // const apiNameFromRecord = response.result[0].api_name;
-
-    } catch (error) {
-        // Comment out error log
-        // console.error(`Error fetching Script Include '${scriptIncludeName}':`, error);
-        throw error; // Re-throw original or formatted error
     }
 
-    // Parse the script content using TypeScript compiler API
-    const sourceFile = ts.createSourceFile(
-        `${scriptIncludeName}.js`, // File name for context
-        scriptContent,
-        ts.ScriptTarget.Latest,
-        true // setParentNodes
-    );
-
-    const apiResult: ScriptIncludeAPIResult = {
-        apiName: scriptIncludeName,
-        functions: [],
-        // scriptContent: scriptContent // Uncomment to include script content
-    };
+    return { description: description.join('\n').trim() || undefined, params, returns };
+}
+
+function propertyName(name: ts.PropertyName | undefined): string | undefined {
+    if (name && (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isPrivateIdentifier(name))) {
+        return name.text;
+    }
+    return undefined;
+}
+
+/**
+ * Parses the script of a Script Include and lists the functions of the class, object or function named className.
+ * Only top-level definitions are read, so helper functions nested in method bodies are not reported.
+ */
+function parseScriptInclude(script: string, className: string): ParsedScriptInclude {
+    const sourceFile = ts.createSourceFile(`${className}.js`, script || '', ts.ScriptTarget.Latest, true, ts.ScriptKind.JS);
+    const fullText = sourceFile.getFullText();
+    const parsed: ParsedScriptInclude = { kind: 'unknown', parent: null, functions: [] };
+
+    // The JSDoc comment closest to the node, if any
+    function jsDocOf(node: ts.Node): ParsedJsDoc | undefined {
+        const ranges = ts.getLeadingCommentRanges(fullText, node.getFullStart()) || [];
+        const comment = ranges
+            .filter(range => range.kind === ts.SyntaxKind.MultiLineCommentTrivia)
+            .map(range => fullText.substring(range.pos, range.end))
+            .filter(text => text.startsWith('/**'))
+            .pop();
+        return comment ? parseJsDoc(comment) : undefined;
+    }
+
+    function addFunction(name: string, declaration: ts.SignatureDeclarationBase, docNode: ts.Node, isConstructor = false) {
+        const doc = jsDocOf(docNode);
+        parsed.functions.push({
+            name,
+            parameters: declaration.parameters.map(parameter => {
+                const parameterName = parameter.name.getText(sourceFile);
+                const documented = doc?.params.get(parameterName);
+                return {
+                    name: parameterName,
+                    type: documented?.type,
+                    description: documented?.description,
+                    optional: documented?.optional || (parameter.initializer ? true : undefined),
+                };
+            }),
+            returns: doc?.returns,
+            jsDoc: doc?.description,
+            isConstructor,
+            isPrivate: name.startsWith('_') || name.startsWith('#'),
+        });
+    }
 
-    // Recursive function to find function declarations/expressions
-    function findFunctions(node: ts.Node) {
-        let functionName: string | undefined = undefined;
-        let parameters: string[] = [];
-        let nodeToExtractJsDocFrom: ts.Node | undefined = node;
+    // Methods of a prototype or object literal: { initialize: function() {}, run: function(a) {}, type: 'Foo' }
+    function addObjectLiteral(literal: ts.ObjectLiteralExpression, isClass: boolean) {
+        for (const property of literal.properties) {
+            const name = propertyName(property.name);
+            if (!name) {
+                continue;
+            }
+            if (ts.isMethodDeclaration(property)) {
+                addFunction(name, property, property, isClass && name === 'initialize');
+            } else if (ts.isPropertyAssignment(property)
+                && (ts.isFunctionExpression(property.initializer) || ts.isArrowFunction(property.initializer))) {
+                addFunction(name, property.initializer, property, isClass && name === 'initialize');
+            }
+        }
+    }
 
-        // Identify function declarations (e.g., function myFunction() {})
-        if (ts.isFunctionDeclaration(node) && node.name) {
-            functionName = node.name.text;
-            parameters = node.parameters.map(p => p.name.getText(sourceFile));
+    function addClass(declaration: ts.ClassLikeDeclaration) {
+        parsed.kind = 'class';
+        const heritage = declaration.heritageClauses?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword);
+        if (heritage && heritage.types.length > 0) {
+            parsed.parent = heritage.types[0].expression.getText(sourceFile);
         }
-        // Identify function expressions assigned to variables/properties
-        // (e.g., var myFunc = function() {}; Class.prototype.myMethod = function() {}; this.myMethod = function() {} )
-        else if (ts.isVariableStatement(node)) {
-            for (const decl of node.declarationList.declarations) {
-                if (decl.initializer && ts.isFunctionExpression(decl.initializer) && ts.isIdentifier(decl.name)) {
-                    functionName = decl.name.text;
-                    parameters = decl.initializer.parameters.map(p => p.name.getText(sourceFile));
-                    nodeToExtractJsDocFrom = decl.initializer; // JSDoc might be on the expression
+        for (const member of declaration.members) {
+            if (ts.isConstructorDeclaration(member)) {
+                addFunction('constructor', member, member, true);
+            } else if (ts.isMethodDeclaration(member)) {
+                const name = propertyName(member.name);
+                if (name) {
+                    addFunction(name, member, member);
                 }
             }
         }
-        else if (ts.isExpressionStatement(node) && ts.isBinaryExpression(node.expression) && node.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
-            const left = node.expression.left;
-            const right = node.expression.right;
-
-            if (ts.isFunctionExpression(right)) {
-                 // Handle Class.prototype.method = function()...
-                if (ts.isPropertyAccessExpression(left) && left.name) {
-                     functionName = left.name.text;
+    }
+
+    // Foo.prototype (or x_scope.Foo.prototype) for the Script Include's own class
+    const isPrototypeOf = (expression: ts.Expression) =>
+        ts.isPropertyAccessExpression(expression) && expression.name.text === 'prototype'
+        && expression.expression.getText(sourceFile).split('.').pop() === className;
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isFunctionDeclaration(statement) && statement.name?.text === className) {
+            // On-demand Script Include: the function itself is the API
+            parsed.kind = 'function';
+            addFunction(className, statement, statement);
+        } else if (ts.isClassDeclaration(statement) && statement.name?.text === className) {
+            addClass(statement);
+        } else if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                const initializer = declaration.initializer;
+                if (!ts.isIdentifier(declaration.name) || declaration.name.text !== className || !initializer) {
+                    continue;
                 }
-                // Handle this.method = function()... (Corrected check)
-                else if (ts.isPropertyAccessExpression(left) && left.expression.kind === ts.SyntaxKind.ThisKeyword && left.name) {
-                     functionName = left.name.text;
+                if (ts.isCallExpression(initializer) && initializer.expression.getText(sourceFile) === 'Class.create') {
+                    parsed.kind = 'class';
+                } else if (ts.isObjectLiteralExpression(initializer)) {
+                    parsed.kind = 'object';
+                    addObjectLiteral(initializer, false);
+                } else if (ts.isFunctionExpression(initializer) || ts.isArrowFunction(initializer)) {
+                    parsed.kind = 'function';
+                    addFunction(className, initializer, statement);
+                } else if (ts.isClassExpression(initializer)) {
+                    addClass(initializer);
                 }
-                // Could add more specific checks if needed
+            }
+        } else if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression)
+            && statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+            const { left, right } = statement.expression;
 
-                 if (functionName) {
-                      parameters = right.parameters.map(p => p.name.getText(sourceFile));
-                      nodeToExtractJsDocFrom = right; // JSDoc might be on the expression
-                 }
+            if (isPrototypeOf(left)) {
+                parsed.kind = 'class';
+                if (ts.isObjectLiteralExpression(right)) {
+                    // Foo.prototype = { ... }
+                    addObjectLiteral(right, true);
+                } else if (ts.isCallExpression(right) && right.expression.getText(sourceFile) === 'Object.extendsObject') {
+                    // Foo.prototype = Object.extendsObject(Parent, { ... })
+                    const [parent, members] = right.arguments;
+                    if (parent) {
+                        parsed.parent = parent.getText(sourceFile);
+                    }
+                    if (members && ts.isObjectLiteralExpression(members)) {
+                        addObjectLiteral(members, true);
+                    }
+                }
+            } else if (ts.isPropertyAccessExpression(left) && isPrototypeOf(left.expression)
+                && (ts.isFunctionExpression(right) || ts.isArrowFunction(right))) {
+                // Foo.prototype.method = function() { ... }
+                parsed.kind = 'class';
+                addFunction(left.name.text, right, statement, left.name.text === 'initialize');
             }
         }
+    }
 
-        if (functionName && nodeToExtractJsDocFrom) {
-            const jsDoc = getJsDocString(nodeToExtractJsDocFrom);
-            apiResult.functions.push({ name: functionName, parameters, jsDoc });
-        }
+    return parsed;
+}
 
-        ts.forEachChild(node, findFunctions);
+/**
+ * Looks up a Script Include by API name (global.Foo, x_app.Foo) or name. When several scopes define the name,
+ * the one in preferredScope wins, then the global one.
+ */
+export async function fetchScriptInclude(client: ServiceNowService, name: string, preferredScope?: string): Promise<ScriptIncludeRecord | null> {
+    const response = await client.get<{ result: ScriptIncludeRecord[] }>('/table/sys_script_include', {
+        params: {
+            sysparm_query: new QueryBuilder().where('api_name', '=', name).orWhere('name', '=', name).build(),
+            sysparm_fields: SCRIPT_INCLUDE_FIELDS,
+            sysparm_display_value: 'false',
+            sysparm_limit: 10,
+        },
+    });
+    const records = response.result || [];
+    return records.find(record => record.api_name === name)
+        || records.find(record => preferredScope && record['sys_scope.scope'] === preferredScope)
+        || records.find(record => record['sys_scope.scope'] === 'global')
+        || records[0]
+        || null;
+}
+
+/**
+ * Lists the API of a Script Include: its methods with parameters, JSDoc types and descriptions,
+ * including methods inherited through Object.extendsObject (or ES class extends) from parent Script Includes.
+ */
+export async function getScriptIncludeApi(
+    scriptIncludeName: string,
+    instance?: string
+): Promise<ScriptIncludeAPIResult> {
+    const client = getAuthenticatedClient(instance);
+
+    const record = await fetchScriptInclude(client, scriptIncludeName);
+    if (!record) {
+        throw new Error(`Script Include '${scriptIncludeName}' not found.`);
+    }
+
+    const parsed = parseScriptInclude(record.script, record.name);
+    const warnings: string[] = [];
+    if (parsed.kind === 'unknown') {
+        warnings.push(`No class, object or function named '${record.name}' was found in the script.`);
     }
 
-    // Helper to extract JSDoc comments
-    function getJsDocString(node: ts.Node): string | undefined {
-        // @ts-ignore - internal TypeScript API might change, but necessary for JSDoc
-        const comments = ts.getJSDocTags(node);
-        if (comments && comments.length > 0) {
-             // @ts-ignore
-            return comments.map(tag => tag.comment ? `* ${tag.comment}` : '*').join('\n ');
+    // Walk up the inheritance chain; methods overridden lower down are not repeated
+    const functions = [...parsed.functions];
+    const visited = new Set<string>([record.sys_id]);
+    let parentName = parsed.parent;
+    for (let depth = 0; parentName && depth < MAX_INHERITANCE_DEPTH; depth++) {
+        const parentRecord = await fetchScriptInclude(client, parentName, record['sys_scope.scope']);
+        if (!parentRecord) {
+            warnings.push(`Parent '${parentName}' was not found; its methods are not listed.`);
+            break;
         }
-        // Fallback or alternative: Look for full text comments immediately preceding
-        const commentRanges = ts.getLeadingCommentRanges(sourceFile.getFullText(), node.getFullStart());
-        if (commentRanges) {
-            for (const range of commentRanges) {
-                if (range.kind === ts.SyntaxKind.MultiLineCommentTrivia) {
-                    const commentText = sourceFile.getFullText().substring(range.pos, range.end);
-                    if (commentText.startsWith('/**')) { // Check if it looks like JSDoc
-                        // Basic cleanup
-                        return commentText
-                            .replace(/^\/\*\*\s*\n?/, '') // Remove leading /**
-                            .replace(/\n?\s*\*\/$/, '')   // Remove trailing */
-                            .split('\n')
-                            .map(line => line.replace(/^\s*\* ?/, '')) // Remove leading * per line
-                            .join('\n');
-                    }
-                }
+        if (visited.has(parentRecord.sys_id)) {
+            break;
+        }
+        visited.add(parentRecord.sys_id);
+
+        const parentParsed = parseScriptInclude(parentRecord.script, parentRecord.name);
+        for (const inherited of parentParsed.functions) {
+            if (!functions.some(own => own.name === inherited.name)) {
+                functions.push({ ...inherited, inheritedFrom: parentRecord.api_name });
             }
         }
-        return undefined;
+        parentName = parentParsed.parent;
     }
 
-    findFunctions(sourceFile);
-
-    return apiResult;
-}
\ No newline at end of file
+    return {
+        apiName: record.api_name,
+        name: record.name,
+        sys_id: record.sys_id,
+        kind: parsed.kind,
+        extends: parsed.parent,
+        clientCallable: record.client_callable === 'true',
+        access: record.access || 'public',
+        functions,
+        warnings,
+    };
+}
@@ -0,0 +1,284 @@
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { getTableAncestors } from './getTableSchema.js';
+import { findBusinessRules, BusinessRuleDetails } from './getBusinessRuleDetails.js';
+
+export type TimelineOperation = 'insert' | 'update' | 'delete' | 'query';
+
+export const TIMELINE_OPERATIONS: TimelineOperation[] = ['insert', 'update', 'delete', 'query'];
+
+type TimelinePhase = 'before' | 'database' | 'after' | 'async';
+
+interface TimelineEntry {
+    phase: TimelinePhase;
+    order: number | null; // Business rule order; engines run at ENGINE_ORDER
+    type: 'Business Rule' | 'Data Policy' | 'Assignment Rule' | 'Workflow' | 'Flow' | 'SLA Definition' | 'Script Action' | 'Database Operation';
+    name: string;
+    table: string | null; // Table the logic is defined on
+    inherited: boolean; // Defined on a parent table (or 'global')
+    condition: string | null;
+    sys_id: string | null;
+    note?: string;
+}
+
+interface GetTableExecutionTimelineArgs {
+    tableName: string;
+    operation: TimelineOperation;
+    instance?: string; // Optional instance (profile) name
+}
+
+interface TableExecutionTimeline {
+    table: string;
+    operation: TimelineOperation;
+    hierarchy: string[]; // The table followed by its ancestors
+    timeline: TimelineEntry[];
+    warnings: string[]; // Sources that could not be read (e.g., plugin not installed or no access)
+}
+
+// Engines (assignment, data policy, workflow, SLA, ...) run between the business rules ordered below and from 1000
+const ENGINE_ORDER = 1000;
+
+const PHASE_ORDER: TimelinePhase[] = ['before', 'database', 'after', 'async'];
+
+// Business rule 'when' values per phase
+const WHEN_TO_PHASE: { [when: string]: TimelinePhase } = {
+    before: 'before',
+    after: 'after',
+    async: 'async',
+    async_always: 'async',
+};
+
+/**
+ * Builds the ordered list of server-side logic that runs when a record of a table is inserted, updated, deleted
+ * or queried: business rules (including those inherited from parent tables and 'global'), data policies,
+ * assignment rules, workflows, flows, SLA definitions and script actions on the table's events.
+ * Entries are sorted the way the platform runs them: before rules and engines, the database operation,
+ * after rules and engines, then asynchronous logic.
+ */
+export async function getTableExecutionTimeline(args: GetTableExecutionTimelineArgs): Promise<TableExecutionTimeline> {
+    const { tableName, operation, instance } = args;
+
+    if (!TIMELINE_OPERATIONS.includes(operation)) {
+        throw new Error(`Invalid operation '${operation}'. Valid operations are: ${TIMELINE_OPERATIONS.join(', ')}.`);
+    }
+
+    const ancestors = await getTableAncestors(tableName, instance);
+    if (ancestors === null) {
+        throw new Error(`Table '${tableName}' not found.`);
+    }
+    const hierarchy = ancestors.map(a => a.name);
+    const actualTableName = hierarchy[0];
+    const client = getAuthenticatedClient(instance);
+
+    const timeline: TimelineEntry[] = [];
+    const warnings: string[] = [];
+    const isInherited = (table: string | null) => table !== actualTableName;
+    const writes = operation === 'insert' || operation === 'update';
+
+    // Reads one source of logic; a missing plugin or ACL only costs that source, not the whole timeline
+    async function readSource<T>(sourceTable: string, query: QueryBuilder, fields: string): Promise<T[]> {
+        try {
+            const response = await client.getPaginated<T>(`/table/${sourceTable}`, {
+                sysparm_query: query.build(),
+                sysparm_fields: fields,
+                sysparm_display_value: 'false',
+            });
+            if (response.truncated) {
+                warnings.push(`Only the first ${response.records.length} records of ${sourceTable} were read.`);
+            }
+            return response.records;
+        } catch (error: any) {
+            warnings.push(`Could not read ${sourceTable}: ${error.message}`);
+            return [];
+        }
+    }
+
+    // 1. Business rules of the table, its parents and 'global', with their scripts to find queued events
+    const ruleResults = await Promise.all(
+        [...hierarchy, 'global'].map(table => findBusinessRules({ tableName: table, includeScript: true, instance }))
+    );
+    const rules: BusinessRuleDetails[] = ruleResults
+        .flatMap(result => result.records)
+        .filter(rule => rule.active && rule[operation] && WHEN_TO_PHASE[rule.when]);
+
+    for (const rule of rules) {
+        timeline.push({
+            phase: WHEN_TO_PHASE[rule.when],
+            order: rule.order,
+            type: 'Business Rule',
+            name: rule.name,
+            table: rule.table,
+            inherited: isInherited(rule.table),
+            condition: rule.filterConditionDescription || rule.condition || null,
+            sys_id: rule.sys_id,
+            ...(rule.abortAction ? { note: 'Aborts the operation when its condition matches.' } : {}),
+        });
+    }
+
+    if (writes) {
+        // 2. Data policies; policies on parent tables only apply when they are inherited
+        const policies = await readSource<any>(
+            'sys_data_policy2',
+            new QueryBuilder().where('active', '=', true).where('model_table', 'IN', hierarchy),
+            'short_description,model_table,inherit,conditions,sys_id'
+        );
+        for (const policy of policies) {
+            if (isInherited(policy.model_table) && policy.inherit !== 'true') {
+                continue;
+            }
+            timeline.push({
+                phase: 'before',
+                order: ENGINE_ORDER,
+                type: 'Data Policy',
+                name: policy.short_description || policy.sys_id,
+                table: policy.model_table,
+                inherited: isInherited(policy.model_table),
+                condition: policy.conditions || null,
+                sys_id: policy.sys_id,
+            });
+        }
+
+        // 3. Assignment rules
+        const assignmentRules = await readSource<any>(
+            'sysrule_assignment',
+            new QueryBuilder().where('active', '=', true).where('table', 'IN', hierarchy).orderBy('order'),
+            'name,table,order,condition,sys_id'
+        );
+        for (const rule of assignmentRules) {
+            timeline.push({
+                phase: 'before',
+                order: ENGINE_ORDER,
+                type: 'Assignment Rule',
+                name: rule.name,
+                table: rule.table,
+                inherited: isInherited(rule.table),
+                condition: rule.condition || null,
+                sys_id: rule.sys_id,
+                note: `Assignment rule order ${rule.order}; only the first matching rule assigns the record.`,
+            });
+        }
+
+        // 4. Legacy workflows started on the table
+        const workflows = await readSource<any>(
+            'wf_workflow_version',
+            new QueryBuilder().where('published', '=', true).where('table', 'IN', hierarchy),
+            'name,table,condition,sys_id'
+        );
+        for (const workflow of workflows) {
+            timeline.push({
+                phase: 'after',
+                order: ENGINE_ORDER,
+                type: 'Workflow',
+                name: workflow.name,
+                table: workflow.table,
+                inherited: isInherited(workflow.table),
+                condition: workflow.condition || null,
+                sys_id: workflow.sys_id,
+            });
+        }
+
+        // 5. SLA definitions, processed by the task SLA engine
+        const slas = await readSource<any>(
+            'contract_sla',
+            new QueryBuilder().where('active', '=', true).where('collection', 'IN', hierarchy),
+            'name,collection,start_condition,sys_id'
+        );
+        for (const sla of slas) {
+            timeline.push({
+                phase: 'after',
+                order: ENGINE_ORDER,
+                type: 'SLA Definition',
+                name: sla.name,
+                table: sla.collection,
+                inherited: isInherited(sla.collection),
+                condition: sla.start_condition || null,
+                sys_id: sla.sys_id,
+            });
+        }
+    }
+
+    // 6. Flows with a record trigger on the table; trigger types are record_create, record_update and record_create_or_update
+    if (operation !== 'query') {
+        const triggers = await readSource<any>(
+            'sys_hub_trigger_instance',
+            new QueryBuilder().where('table', 'IN', hierarchy).where('trigger_type', 'STARTSWITH', 'record_'),
+            'flow.name,flow.active,table,trigger_type,condition,flow'
+        );
+        const triggerOperation = operation === 'insert' ? 'create' : operation;
+        for (const trigger of triggers) {
+            if (trigger['flow.active'] === 'false' || !String(trigger.trigger_type).includes(triggerOperation)) {
+                continue;
+            }
+            timeline.push({
+                phase: 'async',
+                order: null,
+                type: 'Flow',
+                name: trigger['flow.name'] || trigger.flow,
+                table: trigger.table,
+                inherited: isInherited(trigger.table),
+                condition: trigger.condition || null,
+                sys_id: trigger.flow || null,
+                note: `Trigger: ${trigger.trigger_type}. Runs in the background unless the flow is set to run in the foreground.`,
+            });
+        }
+    }
+
+    // 7. Script actions on events registered for the table or queued by the business rules above
+    const registeredEvents = operation === 'query' ? [] : await readSource<any>(
+        'sysevent_register',
+        new QueryBuilder().where('table', 'IN', hierarchy),
+        'event_name'
+    );
+    const eventNames = new Set<string>([
+        ...registeredEvents.map(event => event.event_name as string),
+        ...rules.flatMap(rule => rule.references?.events || []),
+    ].filter(Boolean));
+
+    if (eventNames.size > 0) {
+        const scriptActions = await readSource<any>(
+            'sysevent_script_action',
+            new QueryBuilder().where('active', '=', true).where('event_name', 'IN', Array.from(eventNames).filter(name => !name.includes(','))),
+            'name,event_name,order,condition_script,sys_id'
+        );
+        for (const action of scriptActions) {
+            timeline.push({
+                phase: 'async',
+                order: action.order ? parseInt(action.order, 10) : null,
+                type: 'Script Action',
+                name: action.name,
+                table: null,
+                inherited: false,
+                condition: action.condition_script || null,
+                sys_id: action.sys_id,
+                note: `Runs when event '${action.event_name}' is processed from the event queue.`,
+            });
+        }
+    }
+
+    timeline.push({
+        phase: 'database',
+        order: null,
+        type: 'Database Operation',
+        name: `${operation} on ${actualTableName}`,
+        table: actualTableName,
+        inherited: false,
+        condition: null,
+        sys_id: null,
+    });
+
+    // Phase, then order (engines run before business rules with the same order), then name
+    timeline.sort((a, b) =>
+        PHASE_ORDER.indexOf(a.phase) - PHASE_ORDER.indexOf(b.phase)
+        || (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER)
+        || Number(a.type === 'Business Rule') - Number(b.type === 'Business Rule')
+        || String(a.name).localeCompare(String(b.name))
+    );
+
+    return {
+        table: actualTableName,
+        operation,
+        hierarchy,
+        timeline,
+        warnings,
+    };
+}
@@ -0,0 +1,169 @@
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { getTableAncestors } from './getTableSchema.js';
+
+interface GetTableHierarchyArgs {
+    tableName: string;
+    instance?: string; // Optional instance (profile) name
+}
+
+interface HierarchyTable {
+    name: string;
+    label: string;
+    parent: string | null;
+    extendable: boolean; // sys_db_object.is_extendable
+    scope: string;
+    ownFieldCount: number | null; // Fields defined on the table itself (not inherited); null when they could not be counted
+    inCmdb: boolean; // cmdb_ci or one of its descendants
+}
+
+interface HierarchyTree extends HierarchyTable {
+    children: HierarchyTree[];
+}
+
+interface TableHierarchy {
+    table: HierarchyTable;
+    ancestors: HierarchyTable[]; // From the parent up to the root table
+    descendants: HierarchyTree[]; // Child tables, each with its own children
+    descendantCount: number;
+    truncated: boolean; // More descendants than could be read
+    warnings: string[];
+}
+
+// Root table of the Configuration Management Database
+const CMDB_ROOT = 'cmdb_ci';
+
+const TABLE_FIELDS = 'name,label,super_class.name,is_extendable,sys_scope.scope';
+
+// Table names per IN condition; keeps request URLs short when walking wide hierarchies such as cmdb_ci
+const NAMES_PER_REQUEST = 100;
+
+// Response of /api/now/stats/sys_dictionary grouped by table
+interface FieldCountResponse {
+    result: { stats: { count?: string }; groupby_fields?: { field: string; value: string }[] }[];
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+/**
+ * Returns the full extension tree of a table: its ancestors via super_class and all descendant tables, with
+ * for each table whether it can be extended, its scope, the number of fields it defines itself and whether it
+ * belongs to the CMDB.
+ */
+export async function getTableHierarchy(args: GetTableHierarchyArgs): Promise<TableHierarchy> {
+    const { tableName, instance } = args;
+
+    const ancestors = await getTableAncestors(tableName, instance);
+    if (ancestors === null) {
+        throw new Error(`Table '${tableName}' not found.`);
+    }
+    const lineage = ancestors.map(a => a.name);
+    const client = getAuthenticatedClient(instance);
+    const warnings: string[] = [];
+    let truncated = false;
+
+    // 1. The table and its ancestors, with the details getTableAncestors does not read
+    const records = new Map<string, any>();
+    const lineageResponse = await client.getPaginated<any>('/table/sys_db_object', {
+        sysparm_query: new QueryBuilder().where('name', 'IN', lineage).build(),
+        sysparm_fields: TABLE_FIELDS,
+        sysparm_display_value: 'false',
+    });
+    lineageResponse.records.forEach(record => records.set(record.name, record));
+
+    // 2. Descendants, one level at a time
+    const descendantNames: string[] = [];
+    let frontier = [lineage[0]];
+    while (frontier.length > 0) {
+        const next: string[] = [];
+        for (const names of chunk(frontier, NAMES_PER_REQUEST)) {
+            const response = await client.getPaginated<any>('/table/sys_db_object', {
+                sysparm_query: new QueryBuilder().where('super_class.name', 'IN', names).build(),
+                sysparm_fields: TABLE_FIELDS,
+                sysparm_display_value: 'false',
+            });
+            truncated = truncated || response.truncated;
+            for (const record of response.records) {
+                // Guards against corrupt super_class cycles
+                if (records.has(record.name)) {
+                    continue;
+                }
+                records.set(record.name, record);
+                descendantNames.push(record.name);
+                next.push(record.name);
+            }
+        }
+        frontier = next;
+    }
+    if (truncated) {
+        warnings.push('Some levels had more child tables than could be read; the descendants are incomplete.');
+    }
+
+    // 3. Own field counts through the Aggregate API, grouped by table
+    const fieldCounts = new Map<string, number>();
+    let fieldCountsRead = true;
+    for (const names of chunk([...lineage, ...descendantNames], NAMES_PER_REQUEST)) {
+        try {
+            const response = await client.get<FieldCountResponse>('/stats/sys_dictionary', {
+                params: {
+                    sysparm_query: new QueryBuilder().where('name', 'IN', names).where('element', 'ISNOTEMPTY').build(),
+                    sysparm_count: true,
+                    sysparm_group_by: 'name',
+                },
+            });
+            const entries = Array.isArray(response.result) ? response.result : [response.result];
+            for (const entry of entries.filter(Boolean)) {
+                const table = entry.groupby_fields?.find(group => group.field === 'name')?.value;
+                if (table) {
+                    fieldCounts.set(table, parseInt(entry.stats.count || '0', 10));
+                }
+            }
+        } catch (error: any) {
+            fieldCountsRead = false;
+            warnings.push(`Could not count fields: ${error.message}`);
+            break;
+        }
+    }
+
+    const inCmdb = lineage.includes(CMDB_ROOT);
+    const describe = (name: string, parent: string | null, isCmdb: boolean): HierarchyTable => {
+        const record = records.get(name) || {};
+        return {
+            name,
+            label: record.label || name,
+            parent,
+            extendable: record.is_extendable === 'true',
+            scope: record['sys_scope.scope'] || 'global',
+            ownFieldCount: fieldCountsRead ? fieldCounts.get(name) ?? 0 : null,
+            inCmdb: isCmdb,
+        };
+    };
+
+    const childrenOf = new Map<string, string[]>();
+    for (const name of descendantNames) {
+        const parent = records.get(name)['super_class.name'];
+        childrenOf.set(parent, [...(childrenOf.get(parent) || []), name]);
+    }
+    // A table is in the CMDB when cmdb_ci is the table itself or one of its ancestors
+    const buildTree = (name: string, parentInCmdb: boolean): HierarchyTree[] => (childrenOf.get(name) || [])
+        .sort()
+        .map(child => {
+            const isCmdb = parentInCmdb || child === CMDB_ROOT;
+            return { ...describe(child, name, isCmdb), children: buildTree(child, isCmdb) };
+        });
+
+    return {
+        table: describe(lineage[0], lineage[1] || null, inCmdb),
+        ancestors: lineage.slice(1).map((name, index) => describe(name, lineage[index + 2] || null, lineage.slice(index + 1).includes(CMDB_ROOT))),
+        descendants: buildTree(lineage[0], inCmdb),
+        descendantCount: descendantNames.length,
+        truncated,
+        warnings,
+    };
+}
@@ -0,0 +1,208 @@
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+
+export type RelationshipKind = 'outgoing' | 'incoming' | 'm2m' | 'extension';
+
+export const RELATIONSHIP_KINDS: RelationshipKind[] = ['outgoing', 'incoming', 'm2m', 'extension'];
+
+interface GetTableRelationshipsArgs {
+    tableName: string;
+    depth?: number; // Hops to follow from the table (defaults to 1)
+    include?: RelationshipKind[]; // Defaults to all kinds
+    instance?: string; // Optional instance (profile) name
+}
+
+interface RelationshipNode {
+    name: string;
+    label: string | null;
+    depth: number; // Hops from the start table
+}
+
+interface RelationshipEdge {
+    from: string;
+    to: string;
+    type: 'reference' | 'list' | 'm2m' | 'extends';
+    field: string | null; // Reference or list field on 'from'; for m2m, the m2m table
+}
+
+interface TableRelationships {
+    table: string;
+    depth: number;
+    nodes: RelationshipNode[];
+    edges: RelationshipEdge[];
+    mermaid: string; // Mermaid erDiagram of the edges
+    truncated: boolean; // Stopped at MAX_NODES tables, or a table had more incoming references than were read
+    warnings: string[];
+}
+
+const DEFAULT_DEPTH = 1;
+const MAX_DEPTH = 3;
+
+// Popular tables (sys_user, cmdb_ci, ...) are referenced from hundreds of tables; cap the graph
+const MAX_NODES = 100;
+const INCOMING_LIMIT = 200;
+
+// Mermaid cardinality per edge type: references point from many records to zero or one
+const MERMAID_RELATIONS: { [type in RelationshipEdge['type']]: string } = {
+    reference: '}o--o|',
+    list: '}o--o{',
+    m2m: '}o--o{',
+    extends: '||--||',
+};
+
+function toMermaid(tableName: string, edges: RelationshipEdge[]): string {
+    const lines = ['erDiagram'];
+    for (const edge of edges) {
+        const label = edge.type === 'extends' ? 'extends' : edge.type === 'm2m' ? `m2m ${edge.field}` : edge.field;
+        lines.push(`    ${edge.from} ${MERMAID_RELATIONS[edge.type]} ${edge.to} : "${label}"`);
+    }
+    if (edges.length === 0) {
+        // An entity needs at least one attribute to be drawn on its own
+        lines.push(`    ${tableName} {`, '        GUID sys_id', '    }');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Builds the reference graph around a table: outgoing references (reference and list fields of the table),
+ * incoming references (fields of other tables referencing it), many-to-many relationships (sys_m2m) and
+ * parent/child extension, following each neighbour up to depth hops. Returns the graph as JSON and as a
+ * Mermaid erDiagram. Fields inherited from a parent table show up on the parent, reached through 'extends'.
+ */
+export async function getTableRelationships(args: GetTableRelationshipsArgs): Promise<TableRelationships> {
+    const { tableName, instance } = args;
+    const include = args.include && args.include.length > 0 ? args.include : RELATIONSHIP_KINDS;
+    const depth = Math.min(Math.max(args.depth ?? DEFAULT_DEPTH, 1), MAX_DEPTH);
+
+    const invalid = include.filter(kind => !RELATIONSHIP_KINDS.includes(kind));
+    if (invalid.length > 0) {
+        throw new Error(`Invalid relationship kind(s): ${invalid.join(', ')}. Valid kinds are: ${RELATIONSHIP_KINDS.join(', ')}.`);
+    }
+
+    const client = getAuthenticatedClient(instance);
+    const warnings: string[] = [];
+    let truncated = false;
+
+    // Reads one source of relationships; a missing table or ACL only costs that source
+    async function readSource<T>(sourceTable: string, query: QueryBuilder, fields: string, maxRecords?: number): Promise<T[]> {
+        try {
+            const response = await client.getPaginated<T>(`/table/${sourceTable}`, {
+                sysparm_query: query.build(),
+                sysparm_fields: fields,
+                sysparm_display_value: 'false',
+            }, maxRecords ? { maxRecords } : {});
+            if (response.truncated) {
+                truncated = true;
+                warnings.push(`Only the first ${response.records.length} records of ${sourceTable} matching ${query.build()} were read.`);
+            }
+            return response.records;
+        } catch (error: any) {
+            warnings.push(`Could not read ${sourceTable}: ${error.message}`);
+            return [];
+        }
+    }
+
+    const root = await readSource<any>('sys_db_object', new QueryBuilder().where('name', '=', tableName), 'name,label');
+    if (root.length === 0) {
+        throw new Error(`Table '${tableName}' not found.`);
+    }
+
+    const nodes = new Map<string, RelationshipNode>([[tableName, { name: tableName, label: root[0].label || null, depth: 0 }]]);
+    const edges: RelationshipEdge[] = [];
+    const edgeKeys = new Set<string>();
+
+    function addEdge(edge: RelationshipEdge, neighbour: string, neighbourDepth: number) {
+        const key = `${edge.from}|${edge.to}|${edge.type}|${edge.field}`;
+        if (!nodes.has(neighbour)) {
+            if (nodes.size >= MAX_NODES) {
+                truncated = true;
+                return;
+            }
+            nodes.set(neighbour, { name: neighbour, label: null, depth: neighbourDepth });
+        }
+        if (!edgeKeys.has(key)) {
+            edgeKeys.add(key);
+            edges.push(edge);
+        }
+    }
+
+    let frontier = [tableName];
+    for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+        const known = new Set(nodes.keys());
+
+        for (const table of frontier) {
+            if (include.includes('outgoing')) {
+                const fields = await readSource<any>(
+                    'sys_dictionary',
+                    new QueryBuilder().where('name', '=', table).where('internal_type', 'IN', ['reference', 'glide_list']).where('reference', 'ISNOTEMPTY'),
+                    'element,internal_type,reference'
+                );
+                for (const field of fields) {
+                    addEdge({ from: table, to: field.reference, type: field.internal_type === 'glide_list' ? 'list' : 'reference', field: field.element }, field.reference, hop);
+                }
+            }
+
+            if (include.includes('incoming')) {
+                const fields = await readSource<any>(
+                    'sys_dictionary',
+                    new QueryBuilder().where('reference', '=', table).where('internal_type', 'IN', ['reference', 'glide_list']),
+                    'name,element,internal_type',
+                    INCOMING_LIMIT
+                );
+                for (const field of fields) {
+                    addEdge({ from: field.name, to: table, type: field.internal_type === 'glide_list' ? 'list' : 'reference', field: field.element }, field.name, hop);
+                }
+            }
+
+            if (include.includes('m2m')) {
+                const relations = await readSource<any>(
+                    'sys_m2m',
+                    new QueryBuilder().where('from_table', '=', table).orWhere('to_table', '=', table),
+                    'from_table,to_table,m2m_table'
+                );
+                for (const relation of relations) {
+                    const neighbour = relation.from_table === table ? relation.to_table : relation.from_table;
+                    if (neighbour) {
+                        addEdge({ from: relation.from_table, to: relation.to_table, type: 'm2m', field: relation.m2m_table || null }, neighbour, hop);
+                    }
+                }
+            }
+
+            if (include.includes('extension')) {
+                const [tableObject] = await readSource<any>('sys_db_object', new QueryBuilder().where('name', '=', table), 'super_class.name');
+                const parent = tableObject?.['super_class.name'];
+                if (parent) {
+                    addEdge({ from: table, to: parent, type: 'extends', field: null }, parent, hop);
+                }
+                const children = await readSource<any>('sys_db_object', new QueryBuilder().where('super_class.name', '=', table), 'name');
+                for (const child of children) {
+                    addEdge({ from: child.name, to: table, type: 'extends', field: null }, child.name, hop);
+                }
+            }
+        }
+
+        frontier = Array.from(nodes.keys()).filter(name => !known.has(name));
+    }
+
+    // Labels of the tables reached, in one request
+    const unlabelled = Array.from(nodes.values()).filter(node => node.label === null).map(node => node.name).filter(name => !name.includes(','));
+    if (unlabelled.length > 0) {
+        const tables = await readSource<any>('sys_db_object', new QueryBuilder().where('name', 'IN', unlabelled), 'name,label');
+        for (const table of tables) {
+            const node = nodes.get(table.name);
+            if (node) {
+                node.label = table.label || null;
+            }
+        }
+    }
+
+    return {
+        table: tableName,
+        depth,
+        nodes: Array.from(nodes.values()),
+        edges,
+        mermaid: toMermaid(tableName, edges),
+        truncated,
+        warnings,
+    };
+}
@@ -2,51 +2,115 @@ import { ServiceNowService, getAuthenticatedClient } from "../services/serviceNo
 import {
     TableSchema,
     FieldSchema,
+    SysDbObjectRecord,
     SysDbObjectResponse,
-    SysDictionaryResponse
+    SysDictionaryRecord,
+    SysDictionaryOverrideRecord
 } from "../types.js";
+import { QueryBuilder } from "../services/queryBuilder.js";
 
-export async function getTableSchema(tableName: string): Promise<TableSchema | null> {
-    const client = getAuthenticatedClient();
+// Guards against cyclic or corrupt super_class chains
+const MAX_HIERARCHY_DEPTH = 20;
 
-    try {
-        const tableObjectResponse = await client.get<SysDbObjectResponse>(
+/**
+ * Walks sys_db_object.super_class from a table up to the root table.
+ * @param tableName The technical name of the table to start from
+ * @param instance Optional instance (profile) name; the default instance is used when omitted
+ * @returns The sys_db_object records ordered from the table itself to the root, or null if the table does not exist
+ */
+export async function getTableAncestors(tableName: string, instance?: string): Promise<SysDbObjectRecord[] | null> {
+    const client = getAuthenticatedClient(instance);
+
+    const ancestors: SysDbObjectRecord[] = [];
+    let currentName: string | undefined = tableName;
+
+    while (currentName && ancestors.length < MAX_HIERARCHY_DEPTH) {
+        const response: SysDbObjectResponse = await client.get<SysDbObjectResponse>(
             `/table/sys_db_object`,
             {
                 params: {
-                    sysparm_query: `name=${tableName}`,
+                    sysparm_query: new QueryBuilder().where('name', '=', currentName).build(),
                     sysparm_limit: 1,
-                    sysparm_fields: 'name,label,sys_id'
+                    sysparm_fields: 'name,label,sys_id,super_class.name'
                 }
             }
         );
 
-        if (!tableObjectResponse.result || tableObjectResponse.result.length === 0) {
+        if (!response.result || response.result.length === 0) {
+            // Only the starting table is required to exist; a dangling parent ends the walk
+            if (ancestors.length === 0) {
+                return null;
+            }
+            break;
+        }
+
+        const tableObject = response.result[0];
+        ancestors.push(tableObject);
+
+        const parentName = tableObject['super_class.name'];
+        currentName = parentName && !ancestors.some(a => a.name === parentName) ? parentName : undefined;
+    }
+
+    return ancestors;
+}
+
+export async function getTableSchema(tableName: string, instance?: string): Promise<TableSchema | null> {
+    const client = getAuthenticatedClient(instance);
+
+    try {
+        const ancestors = await getTableAncestors(tableName, instance);
+
+        if (ancestors === null) {
             // Comment out warning
             // console.warn(`Table '${tableName}' not found in ServiceNow instance.`);
             return null;
         }
-        const tableObject = tableObjectResponse.result[0];
+        const tableObject = ancestors[0];
         const actualTableName = tableObject.name;
         const tableLabel = tableObject.label || actualTableName;
+        const hierarchy = ancestors.map(a => a.name);
 
-        const dictionaryResponse = await client.get<SysDictionaryResponse>(
+        const dictionaryResponse = await client.getPaginated<SysDictionaryRecord>(
             `/table/sys_dictionary`,
             {
-                params: {
-                    sysparm_query: `name=${actualTableName}^elementISNOTEMPTY^active=true`,
-                    sysparm_fields: 'element,internal_type,column_label,reference,max_length,mandatory,read_only,comments',
-                    sysparm_display_value: 'all'
-                }
+                sysparm_query: new QueryBuilder()
+                    .where('name', 'IN', hierarchy)
+                    .where('element', 'ISNOTEMPTY')
+                    .where('active', '=', true)
+                    .build(),
+                sysparm_fields: 'name,element,internal_type,column_label,reference,max_length,mandatory,read_only,comments',
+                sysparm_display_value: 'all'
+            }
+        );
+
+        const overrideResponse = await client.getPaginated<SysDictionaryOverrideRecord>(
+            `/table/sys_dictionary_override`,
+            {
+                sysparm_query: new QueryBuilder().where('name', 'IN', hierarchy).build(),
+                sysparm_fields: 'name,element,mandatory_override,mandatory,read_only_override,read_only',
+                sysparm_display_value: 'all'
             }
         );
 
-        const mappedFields = (dictionaryResponse.result || []).map(dictEntry => {
+        // Depth 0 is the requested table; higher numbers are further up the hierarchy
+        const depthOf = (name: string | undefined): number => {
+            const depth = name ? hierarchy.indexOf(name) : -1;
+            return depth === -1 ? hierarchy.length : depth;
+        };
+
+        // Process root first so that entries closer to the requested table win
+        const dictionaryEntries = dictionaryResponse.records
+            .slice()
+            .sort((a, b) => depthOf(b.name?.value) - depthOf(a.name?.value));
+
+        const fieldsByName = new Map<string, FieldSchema>();
+
+        for (const dictEntry of dictionaryEntries) {
             const maxLengthValue = dictEntry.max_length?.value;
             if (!dictEntry.element?.value || !dictEntry.internal_type?.value) {
                 // Comment out warning
                 // console.warn(`Skipping dictionary entry for table ${actualTableName} due to missing element or internal_type:`, dictEntry);
-                return null;
+                continue;
             }
 
             const fieldType = dictEntry.internal_type.value;
@@ -61,21 +125,47 @@ export async function getTableSchema(tableName: string): Promise<TableSchema | n
                 maxLength: maxLengthValue ? parseInt(maxLengthValue.replace(/,/g, ''), 10) : undefined,
                 mandatory: dictEntry.mandatory?.value === 'true',
                 readOnly: dictEntry.read_only?.value === 'true',
+                definedOn: dictEntry.name?.value || actualTableName,
             };
-            return field;
-        });
+            fieldsByName.set(fieldName, field);
+        }
 
-        const fields: FieldSchema[] = mappedFields.filter(
-            (field): field is FieldSchema => field !== null
-        );
+        // Overrides on a table apply to it and its children; apply root first so the nearest override wins
+        const overrides = overrideResponse.records
+            .slice()
+            .sort((a, b) => depthOf(b.name?.value) - depthOf(a.name?.value));
+
+        for (const override of overrides) {
+            const field = fieldsByName.get(override.element?.value);
+            const overrideTable = override.name?.value;
+            // An override only affects fields inherited from a table above the override's own table
+            if (!field || !overrideTable || depthOf(field.definedOn) <= depthOf(overrideTable)) {
+                continue;
+            }
+
+            if (override.mandatory_override?.value === 'true') {
+                field.mandatory = override.mandatory?.value === 'true';
+                field.overriddenOn = overrideTable;
+            }
+            if (override.read_only_override?.value === 'true') {
+                field.readOnly = override.read_only?.value === 'true';
+                field.overriddenOn = overrideTable;
+            }
+        }
+
+        const fields: FieldSchema[] = Array.from(fieldsByName.values());
 
         const sortedFields = fields.sort((a, b) => a.name.localeCompare(b.name));
 
         const tableSchema: TableSchema = {
             label: tableLabel,
             name: actualTableName,
+            hierarchy,
             fields: sortedFields,
         };
+        if (dictionaryResponse.truncated || overrideResponse.truncated) {
+            tableSchema.truncated = true;
+        }
 
         return tableSchema;
 
@@ -0,0 +1,219 @@
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder, QueryCondition } from '../services/queryBuilder.js';
+import { getEncodedQueryFields } from '../services/encodedQuery.js';
+import { getQueryableSchema, validateQueryField } from './queryRecords.js';
+
+export type AggregateFunction = 'avg' | 'min' | 'max' | 'sum';
+
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['avg', 'min', 'max', 'sum'];
+
+// Filters grouped rows on an aggregate, e.g. { aggregate: 'count', operator: '>', value: 10 }
+export interface HavingClause {
+    aggregate: 'count' | AggregateFunction;
+    field?: string; // Required for avg/min/max/sum
+    operator: '=' | '!=' | '<' | '<=' | '>' | '>=';
+    value: number;
+}
+
+interface GetTableStatsArgs {
+    tableName: string;
+    query?: string; // Encoded query; every field it refers to is validated
+    conditions?: QueryCondition[]; // Structured alternative to query
+    groupBy?: string[];
+    avgFields?: string[];
+    minFields?: string[];
+    maxFields?: string[];
+    sumFields?: string[];
+    having?: HavingClause[];
+    orderBy?: string; // A column name, e.g. 'count', 'avg(priority)' or a groupBy field (defaults to count)
+    orderDirection?: 'asc' | 'desc'; // Defaults to desc
+    limit?: number; // Maximum number of groups returned
+    displayValue?: boolean; // Group by display values instead of raw values (defaults to true)
+    instance?: string; // Optional instance (profile) name
+}
+
+interface TableStatsResult {
+    table: string;
+    query: string;
+    columns: string[]; // groupBy fields, then count, then e.g. avg(priority)
+    rows: (string | number | null)[][];
+    totalGroups: number; // Groups left after the having clauses, before the limit
+    truncated: boolean;
+}
+
+// Response of /api/now/stats/<table>; result is an array when grouping
+interface StatsEntry {
+    stats: {
+        count?: string;
+        avg?: { [field: string]: string };
+        min?: { [field: string]: string };
+        max?: { [field: string]: string };
+        sum?: { [field: string]: string };
+    };
+    groupby_fields?: { field: string; value: string; display_value?: string }[];
+}
+
+interface StatsResponse {
+    result: StatsEntry | StatsEntry[];
+}
+
+const DEFAULT_GROUP_LIMIT = 100;
+const MAX_GROUP_LIMIT = 1000;
+
+const COMPARATORS: { [operator in HavingClause['operator']]: (a: number, b: number) => boolean } = {
+    '=': (a, b) => a === b,
+    '!=': (a, b) => a !== b,
+    '<': (a, b) => a < b,
+    '<=': (a, b) => a <= b,
+    '>': (a, b) => a > b,
+    '>=': (a, b) => a >= b,
+};
+
+function aggregateColumn(aggregate: HavingClause['aggregate'], field?: string): string {
+    return aggregate === 'count' ? 'count' : `${aggregate}(${field})`;
+}
+
+function toNumber(value: string | undefined): number | null {
+    if (value === undefined || value === '') {
+        return null;
+    }
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Aggregates records on the instance via the Aggregate API (/api/now/stats): record counts, optionally grouped,
+ * and avg/min/max/sum of numeric fields. Returns a compact table instead of the underlying records.
+ * Having clauses are sent to the instance (sysparm_having) and checked again on the grouped rows.
+ */
+export async function getTableStats(args: GetTableStatsArgs): Promise<TableStatsResult> {
+    const { tableName, query, conditions, instance } = args;
+    const groupBy = args.groupBy || [];
+    const having = args.having || [];
+
+    if (query && conditions) {
+        throw new Error('Provide either query or conditions, not both.');
+    }
+    const limit = args.limit ?? DEFAULT_GROUP_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error('limit must be a positive integer.');
+    }
+    if (having.length > 0 && groupBy.length === 0) {
+        throw new Error('having requires groupBy.');
+    }
+
+    const aggregateFields: { [aggregate in AggregateFunction]: string[] } = {
+        avg: [...(args.avgFields || [])],
+        min: [...(args.minFields || [])],
+        max: [...(args.maxFields || [])],
+        sum: [...(args.sumFields || [])],
+    };
+    // Having clauses can only be evaluated on aggregates the instance returns
+    for (const clause of having) {
+        if (clause.aggregate !== 'count' && !AGGREGATE_FUNCTIONS.includes(clause.aggregate)) {
+            throw new Error(`Invalid having aggregate '${clause.aggregate}'. Valid aggregates are: count, ${AGGREGATE_FUNCTIONS.join(', ')}.`);
+        }
+        if (!COMPARATORS[clause.operator]) {
+            throw new Error(`Invalid having operator '${clause.operator}'. Valid operators are: ${Object.keys(COMPARATORS).join(', ')}.`);
+        }
+        if (typeof clause.value !== 'number' || !Number.isFinite(clause.value)) {
+            throw new Error(`Having value for ${clause.aggregate} must be a number.`);
+        }
+        if (clause.aggregate !== 'count') {
+            if (!clause.field) {
+                throw new Error(`Having clause on ${clause.aggregate} requires a field.`);
+            }
+            if (!aggregateFields[clause.aggregate].includes(clause.field)) {
+                aggregateFields[clause.aggregate].push(clause.field);
+            }
+        }
+    }
+
+    const aggregateColumns = AGGREGATE_FUNCTIONS.flatMap(aggregate =>
+        aggregateFields[aggregate].map(field => ({ column: aggregateColumn(aggregate, field), aggregate, field }))
+    );
+    const columns = [...groupBy, 'count', ...aggregateColumns.map(c => c.column)];
+
+    const orderBy = args.orderBy || 'count';
+    const orderIndex = columns.indexOf(orderBy);
+    if (orderIndex === -1) {
+        throw new Error(`Invalid orderBy '${orderBy}'. Valid columns are: ${columns.join(', ')}.`);
+    }
+
+    const schema = await getQueryableSchema(tableName, instance);
+    const referencedFields = [
+        ...groupBy,
+        ...AGGREGATE_FUNCTIONS.flatMap(aggregate => aggregateFields[aggregate]),
+        ...(conditions || []).map(condition => condition.field),
+        ...(query ? getEncodedQueryFields(query) : []),
+    ];
+    for (const field of referencedFields) {
+        await validateQueryField(schema, field, instance);
+    }
+
+    const builder = new QueryBuilder();
+    for (const condition of conditions || []) {
+        builder.where(condition.field, condition.operator, condition.value);
+    }
+    const sysparm_query = query || builder.build();
+
+    const params: Record<string, unknown> = {
+        sysparm_query,
+        sysparm_count: true,
+        sysparm_display_value: args.displayValue === false ? 'false' : 'true',
+    };
+    if (groupBy.length > 0) {
+        params.sysparm_group_by = groupBy.join(',');
+    }
+    // Filtered on the instance, so a high-cardinality groupBy does not send every group back.
+    // Format: aggregate^field^operator^value, comma separated; counts are taken on the first groupBy field.
+    if (having.length > 0) {
+        params.sysparm_having = having
+            .map(clause => [clause.aggregate, clause.aggregate === 'count' ? groupBy[0] : clause.field, clause.operator, clause.value].join('^'))
+            .join(',');
+    }
+    for (const aggregate of AGGREGATE_FUNCTIONS) {
+        if (aggregateFields[aggregate].length > 0) {
+            params[`sysparm_${aggregate}_fields`] = aggregateFields[aggregate].join(',');
+        }
+    }
+
+    const client = getAuthenticatedClient(instance);
+    const response = await client.get<StatsResponse>(`/stats/${encodeURIComponent(schema.name)}`, { params });
+    const entries = Array.isArray(response.result) ? response.result : [response.result];
+
+    let rows = entries.filter(Boolean).map(entry => {
+        const groupValues = groupBy.map(field => {
+            const group = entry.groupby_fields?.find(g => g.field === field);
+            return group ? (group.display_value ?? group.value) : null;
+        });
+        const aggregateValues = aggregateColumns.map(({ aggregate, field }) => toNumber(entry.stats[aggregate]?.[field]));
+        return [...groupValues, toNumber(entry.stats.count) ?? 0, ...aggregateValues];
+    });
+
+    // Applied again locally, in case the instance ignores sysparm_having for a clause
+    for (const clause of having) {
+        const index = columns.indexOf(aggregateColumn(clause.aggregate, clause.field));
+        rows = rows.filter(row => row[index] !== null && COMPARATORS[clause.operator](row[index] as number, clause.value));
+    }
+
+    const direction = args.orderDirection === 'asc' ? 1 : -1;
+    rows.sort((a, b) => {
+        const left = a[orderIndex];
+        const right = b[orderIndex];
+        if (left === right) return 0;
+        if (left === null) return 1;
+        if (right === null) return -1;
+        return (typeof left === 'number' && typeof right === 'number' ? left - right : String(left).localeCompare(String(right))) * direction;
+    });
+
+    const maxGroups = Math.min(limit, MAX_GROUP_LIMIT);
+    return {
+        table: schema.name,
+        query: sysparm_query,
+        columns,
+        rows: rows.slice(0, maxGroups),
+        totalGroups: rows.length,
+        truncated: rows.length > maxGroups,
+    };
+}
@@ -0,0 +1,203 @@
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder, QueryCondition } from '../services/queryBuilder.js';
+import { getEncodedQueryFields } from '../services/encodedQuery.js';
+import { getTableSchema } from './getTableSchema.js';
+import { TableSchema } from '../types.js';
+
+export interface QueryRecordsOptions {
+    allowTables?: string[]; // When set, only these tables (and their child tables) can be queried
+    denyTables?: string[]; // Never queried, in addition to DEFAULT_DENIED_TABLES
+    maxRows?: number; // Upper bound on the rows a single call returns (defaults to DEFAULT_MAX_ROWS)
+}
+
+export type DisplayValueMode = 'true' | 'false' | 'all';
+
+interface QueryRecordsArgs {
+    tableName: string;
+    query?: string; // Encoded query; every field it refers to is validated like the structured conditions
+    conditions?: QueryCondition[]; // Structured alternative to query; ANDed and escaped by the QueryBuilder
+    fields?: string[]; // Defaults to every non-password field of the table
+    orderBy?: string;
+    orderDirection?: 'asc' | 'desc';
+    limit?: number;
+    displayValue?: DisplayValueMode;
+    instance?: string; // Optional instance (profile) name
+}
+
+interface QueryRecordsResult {
+    table: string;
+    query: string; // The encoded query that was sent, including ordering
+    fields: string[];
+    returned: number;
+    totalCount: number | null;
+    truncated: boolean; // More records matched than were returned
+    records: Record<string, unknown>[];
+}
+
+// Tables holding credentials, keys or tokens. Child tables are denied as well (e.g., basic_auth_credentials).
+export const DEFAULT_DENIED_TABLES = [
+    'sys_user_has_password',
+    'sys_user_password_history',
+    'sys_user_token',
+    'discovery_credentials',
+    'sys_auth_profile_basic',
+    'oauth_credential',
+    'oauth_entity',
+    'sys_certificate',
+    'sys_ssh_key',
+    'sys_alias',
+];
+
+export const DEFAULT_MAX_ROWS = 100;
+
+// Rows returned when the caller does not pass a limit
+const DEFAULT_LIMIT = 20;
+
+// Dictionary types whose values are never returned
+const PASSWORD_FIELD_TYPES = ['password', 'password2'];
+
+// Reference chains longer than this are refused in fields, conditions and orderBy
+const MAX_DOT_WALK_DEPTH = 3;
+
+let queryRecordsOptions: QueryRecordsOptions = {};
+
+/**
+ * Configures the query_records table allow/deny lists and row cap. Should be called once at startup (e.g., in main).
+ */
+export function configureQueryRecords(options: QueryRecordsOptions): void {
+    if (options.maxRows !== undefined && (!Number.isInteger(options.maxRows) || options.maxRows < 1)) {
+        throw new Error('query_records maxRows must be a positive integer.');
+    }
+    queryRecordsOptions = { ...options };
+}
+
+/**
+ * Checks a table against the allow and deny lists. A table is matched by its own name or any ancestor's,
+ * so denying a base table also denies the tables that extend it.
+ * @param hierarchy The table followed by its ancestors, as in TableSchema.hierarchy
+ */
+function assertTableAllowed(hierarchy: string[]): void {
+    const tableName = hierarchy[0];
+    const denied = [...DEFAULT_DENIED_TABLES, ...(queryRecordsOptions.denyTables || [])];
+    const deniedBy = hierarchy.find(name => denied.includes(name));
+    if (deniedBy) {
+        throw new Error(`Querying table '${tableName}' is not allowed${deniedBy !== tableName ? ` (it extends denied table '${deniedBy}')` : ''}.`);
+    }
+
+    const allowed = queryRecordsOptions.allowTables;
+    if (allowed && allowed.length > 0 && !hierarchy.some(name => allowed.includes(name))) {
+        throw new Error(`Querying table '${tableName}' is not allowed. Allowed tables are: ${allowed.join(', ')}.`);
+    }
+}
+
+/**
+ * Loads a table's schema, refusing tables blocked by the allow/deny lists.
+ */
+export async function getQueryableSchema(tableName: string, instance?: string): Promise<TableSchema> {
+    const schema = await getTableSchema(tableName, instance);
+    if (schema === null) {
+        throw new Error(`Table '${tableName}' not found.`);
+    }
+    assertTableAllowed(schema.hierarchy);
+    return schema;
+}
+
+/**
+ * Checks that a (possibly dot-walked) field exists, is not a password field and only walks through
+ * references to tables that may be queried.
+ */
+export async function validateQueryField(schema: TableSchema, field: string, instance?: string): Promise<void> {
+    const path = field.split('.');
+    if (path.length > MAX_DOT_WALK_DEPTH + 1) {
+        throw new Error(`Field '${field}' dot-walks more than ${MAX_DOT_WALK_DEPTH} references.`);
+    }
+
+    let current = schema;
+    for (let i = 0; i < path.length; i++) {
+        const fieldSchema = current.fields.find(f => f.name === path[i]);
+        if (!fieldSchema) {
+            throw new Error(`Unknown field '${field}': table '${current.name}' has no field '${path[i]}'.`);
+        }
+        if (PASSWORD_FIELD_TYPES.includes(fieldSchema.type)) {
+            throw new Error(`Field '${field}' is a password field and cannot be queried.`);
+        }
+        if (i < path.length - 1) {
+            if (!fieldSchema.referenceTable) {
+                throw new Error(`Invalid field '${field}': '${path[i]}' on table '${current.name}' is not a reference field.`);
+            }
+            current = await getQueryableSchema(fieldSchema.referenceTable, instance);
+        }
+    }
+}
+
+/**
+ * Reads records from any permitted table through the Table API. Read-only: the table must pass the
+ * allow/deny lists, requested fields are validated against the table schema and password fields are never returned.
+ */
+export async function queryRecords(args: QueryRecordsArgs): Promise<QueryRecordsResult> {
+    const { tableName, query, conditions, orderBy, instance } = args;
+    const displayValue = args.displayValue || 'false';
+
+    if (query && conditions) {
+        throw new Error('Provide either query or conditions, not both.');
+    }
+    if (!['true', 'false', 'all'].includes(displayValue)) {
+        throw new Error(`Invalid displayValue '${displayValue}'. Valid values are: true, false, all.`);
+    }
+
+    const maxRows = queryRecordsOptions.maxRows ?? DEFAULT_MAX_ROWS;
+    const limit = Math.min(args.limit ?? DEFAULT_LIMIT, maxRows);
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error('limit must be a positive integer.');
+    }
+
+    const schema = await getQueryableSchema(tableName, instance);
+
+    const fields = args.fields && args.fields.length > 0
+        ? args.fields
+        : schema.fields.filter(f => !PASSWORD_FIELD_TYPES.includes(f.type)).map(f => f.name);
+    for (const field of fields) {
+        await validateQueryField(schema, field, instance);
+    }
+
+    for (const field of query ? getEncodedQueryFields(query) : []) {
+        await validateQueryField(schema, field, instance);
+    }
+    const builder = new QueryBuilder();
+    for (const condition of conditions || []) {
+        await validateQueryField(schema, condition.field, instance);
+        builder.where(condition.field, condition.operator, condition.value);
+    }
+    const ordering = new QueryBuilder();
+    if (orderBy) {
+        await validateQueryField(schema, orderBy, instance);
+        if (args.orderDirection === 'desc') {
+            ordering.orderByDesc(orderBy);
+        } else {
+            ordering.orderBy(orderBy);
+        }
+    }
+    const sysparm_query = [query || builder.build(), ordering.build()].filter(part => part.length > 0).join('^');
+
+    const client = getAuthenticatedClient(instance);
+    const response = await client.getPaginated<Record<string, unknown>>(
+        `/table/${encodeURIComponent(schema.name)}`,
+        {
+            sysparm_query,
+            sysparm_fields: fields.join(','),
+            sysparm_display_value: displayValue,
+            sysparm_exclude_reference_link: true,
+        },
+        { maxRecords: limit }
+    );
+
+    return {
+        table: schema.name,
+        query: sysparm_query,
+        fields,
+        returned: response.records.length,
+        totalCount: response.totalCount,
+        truncated: response.truncated,
+        records: response.records,
+    };
+}
@@ -0,0 +1,182 @@
+import ts from 'typescript';
+
+export interface ScriptReferences {
+    tables: string[]; // Tables opened with new GlideRecord('<table>'), GlideAggregate, GlideRecordSecure or GlideQuery
+    scriptIncludes: string[]; // Classes instantiated (new Foo()), called statically (Foo.bar()) or through new GlideAjax('Foo') that are not platform APIs
+    methods: string[]; // Script Include methods called, as '<Script Include>.<method>'
+    properties: string[]; // System properties read with gs.getProperty('<name>')
+    events: string[]; // Events queued with gs.eventQueue('<event>', ...) or gs.eventQueueScheduled
+}
+
+// Constructors whose first argument is a table name
+const TABLE_CLASSES = ['GlideRecord', 'GlideRecordSecure', 'GlideAggregate', 'GlideQuery'];
+
+// gs methods whose first argument is an event name
+const EVENT_QUEUE_METHODS = ['eventQueue', 'eventQueueScheduled'];
+
+// gs methods whose first argument is a system property name
+const PROPERTY_METHODS = ['getProperty'];
+
+// JavaScript and platform globals that look like Script Include names but are not
+const BUILT_IN_CLASSES = [
+    'Array', 'Boolean', 'Date', 'Error', 'Function', 'JSON', 'Math', 'Number', 'Object', 'Packages', 'RegExp', 'String',
+    'Class', 'AbstractAjaxProcessor', 'XMLDocument', 'XMLDocument2', 'XMLHelper', 'SOAPMessageV2', 'RESTMessageV2',
+];
+
+function isBuiltIn(name: string): boolean {
+    return name.startsWith('Glide') || BUILT_IN_CLASSES.includes(name);
+}
+
+/**
+ * Resolves Foo, global.Foo or sn_app.Foo to its dotted name, or undefined for anything else
+ * (lower-case identifiers such as gs or current, calls on expressions, ...).
+ */
+function classReference(expression: ts.Expression): string | undefined {
+    if (ts.isIdentifier(expression)) {
+        return /^[A-Z]/.test(expression.text) ? expression.text : undefined;
+    }
+    if (ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.expression)
+        && /^[a-z]/.test(expression.expression.text) && /^[A-Z]/.test(expression.name.text)) {
+        return `${expression.expression.text}.${expression.name.text}`;
+    }
+    return undefined;
+}
+
+function firstStringArgument(node: ts.CallExpression | ts.NewExpression): string | undefined {
+    const firstArgument = node.arguments?.[0];
+    return firstArgument && ts.isStringLiteralLike(firstArgument) ? firstArgument.text : undefined;
+}
+
+/**
+ * Finds the tables, Script Includes (and their methods), system properties and events a script references,
+ * by walking its syntax tree. Names declared in the script itself (functions, variables, classes) are not
+ * reported as Script Includes.
+ */
+export function findScriptReferences(script: string): ScriptReferences {
+    const sourceFile = ts.createSourceFile('script.js', script || '', ts.ScriptTarget.Latest, true, ts.ScriptKind.JS);
+    const tables = new Set<string>();
+    const classes = new Set<string>();
+    const methods = new Set<string>();
+    const properties = new Set<string>();
+    const events = new Set<string>();
+    const declared = new Set<string>();
+    // Variables holding an instance (var utils = new Foo()) or a GlideAjax for Foo, by variable name
+    const instances = new Map<string, string>();
+    const ajaxCalls = new Map<string, string>();
+
+    // The Script Include a new expression creates: new Foo() or new GlideAjax('Foo')
+    function instantiatedClass(node: ts.NewExpression): string | undefined {
+        const name = classReference(node.expression);
+        if (name === 'GlideAjax') {
+            return firstStringArgument(node);
+        }
+        return name && !TABLE_CLASSES.includes(name) ? name : undefined;
+    }
+
+    function trackVariable(variable: ts.Node, initializer: ts.Expression | undefined) {
+        if (!ts.isIdentifier(variable) || !initializer || !ts.isNewExpression(initializer)) {
+            return;
+        }
+        const name = instantiatedClass(initializer);
+        if (!name) {
+            return;
+        }
+        const isAjax = classReference(initializer.expression) === 'GlideAjax';
+        (isAjax ? ajaxCalls : instances).set(variable.text, name);
+    }
+
+    function visit(node: ts.Node) {
+        if ((ts.isFunctionDeclaration(node) || ts.isVariableDeclaration(node) || ts.isClassDeclaration(node))
+            && node.name && ts.isIdentifier(node.name)) {
+            declared.add(node.name.text);
+        }
+
+        if (ts.isVariableDeclaration(node)) {
+            trackVariable(node.name, node.initializer);
+        } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+            trackVariable(node.left, node.right);
+        }
+
+        if (ts.isNewExpression(node)) {
+            const name = classReference(node.expression);
+            if (name && TABLE_CLASSES.includes(name)) {
+                const table = firstStringArgument(node);
+                if (table) {
+                    tables.add(table);
+                }
+            } else {
+                const instantiated = instantiatedClass(node);
+                if (instantiated) {
+                    classes.add(instantiated);
+                }
+            }
+        } else if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+            const target = ts.isParenthesizedExpression(node.expression.expression)
+                ? node.expression.expression.expression
+                : node.expression.expression;
+            const method = node.expression.name.text;
+
+            // Static calls such as JSUtil.nil(x) or global.ArrayUtil.contains(...)
+            const staticClass = classReference(target);
+            if (staticClass) {
+                classes.add(staticClass);
+                methods.add(`${staticClass}.${method}`);
+            }
+            // Calls on an instance: new Foo().bar() or utils.bar() after var utils = new Foo()
+            const instanceClass = ts.isNewExpression(target) ? instantiatedClass(target)
+                : ts.isIdentifier(target) ? instances.get(target.text) : undefined;
+            if (instanceClass) {
+                methods.add(`${instanceClass}.${method}`);
+            }
+            // GlideAjax names the method to call with addParam('sysparm_name', '<method>')
+            const ajaxClass = ts.isIdentifier(target) ? ajaxCalls.get(target.text) : undefined;
+            const secondArgument = node.arguments[1];
+            if (ajaxClass && method === 'addParam' && firstStringArgument(node) === 'sysparm_name'
+                && secondArgument && ts.isStringLiteralLike(secondArgument)) {
+                methods.add(`${ajaxClass}.${secondArgument.text}`);
+            }
+
+            const firstArgument = firstStringArgument(node);
+            if (ts.isIdentifier(target) && target.text === 'gs' && firstArgument) {
+                if (EVENT_QUEUE_METHODS.includes(method)) {
+                    events.add(firstArgument);
+                } else if (PROPERTY_METHODS.includes(method)) {
+                    properties.add(firstArgument);
+                }
+            }
+        }
+
+        ts.forEachChild(node, visit);
+    }
+
+    visit(sourceFile);
+
+    const scriptIncludes = Array.from(classes).filter(name => {
+        const className = name.split('.').pop() as string;
+        return !isBuiltIn(className) && !declared.has(name);
+    });
+
+    return {
+        tables: Array.from(tables).sort(),
+        scriptIncludes: scriptIncludes.sort(),
+        methods: Array.from(methods)
+            .filter(entry => scriptIncludes.includes(entry.substring(0, entry.lastIndexOf('.'))))
+            .sort(),
+        properties: Array.from(properties).sort(),
+        events: Array.from(events).sort(),
+    };
+}
+
+/**
+ * Combines the references of several scripts (e.g., the script and condition fields of one record).
+ */
+export function mergeScriptReferences(references: ScriptReferences[]): ScriptReferences {
+    const merge = (key: keyof ScriptReferences) => Array.from(new Set(references.flatMap(r => r[key]))).sort();
+    return {
+        tables: merge('tables'),
+        scriptIncludes: merge('scriptIncludes'),
+        methods: merge('methods'),
+        properties: merge('properties'),
+        events: merge('events'),
+    };
+}
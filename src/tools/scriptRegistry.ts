@@ -0,0 +1,41 @@
+// Describes a table whose records carry code, and where the code, name and target table live on it
+export interface ScriptTableDefinition {
+    type: string; // Lower-case key accepted as scriptType, e.g. 'business rule'
+    typeLabel: string; // Reported type, e.g. 'Business Rule'
+    table: string;
+    nameField: string; // May be dot-walked (e.g., map.name for transform scripts)
+    scriptFields: string[]; // Fields holding code, searched for keywords
+    tableField?: string; // Field naming the table the code runs on, when the type is bound to a table
+}
+
+/**
+ * Script-bearing record types searched by find_relevant_scripts and search_code.
+ * Add an entry here to make another type of code searchable.
+ */
+export const SCRIPT_TABLES: ScriptTableDefinition[] = [
+    { type: 'business rule', typeLabel: 'Business Rule', table: 'sys_script', nameField: 'name', scriptFields: ['script', 'condition'], tableField: 'collection' },
+    { type: 'script include', typeLabel: 'Script Include', table: 'sys_script_include', nameField: 'name', scriptFields: ['script'] },
+    { type: 'client script', typeLabel: 'Client Script', table: 'sys_script_client', nameField: 'name', scriptFields: ['script'], tableField: 'table' },
+    { type: 'ui action', typeLabel: 'UI Action', table: 'sys_ui_action', nameField: 'name', scriptFields: ['script', 'onclick', 'condition'], tableField: 'table' },
+    { type: 'ui policy', typeLabel: 'UI Policy', table: 'sys_ui_policy', nameField: 'short_description', scriptFields: ['script_true', 'script_false'], tableField: 'table' },
+    { type: 'acl', typeLabel: 'ACL', table: 'sys_security_acl', nameField: 'name', scriptFields: ['script'] },
+    { type: 'scheduled job', typeLabel: 'Scheduled Job', table: 'sysauto_script', nameField: 'name', scriptFields: ['script', 'condition'] },
+    { type: 'fix script', typeLabel: 'Fix Script', table: 'sys_script_fix', nameField: 'name', scriptFields: ['script'] },
+    { type: 'scripted rest resource', typeLabel: 'Scripted REST Resource', table: 'sys_ws_operation', nameField: 'name', scriptFields: ['operation_script'] },
+    { type: 'transform map', typeLabel: 'Transform Map', table: 'sys_transform_map', nameField: 'name', scriptFields: ['script'], tableField: 'target_table' },
+    { type: 'transform script', typeLabel: 'Transform Script', table: 'sys_transform_script', nameField: 'map.name', scriptFields: ['script'], tableField: 'map.target_table' },
+    { type: 'script action', typeLabel: 'Script Action', table: 'sysevent_script_action', nameField: 'name', scriptFields: ['script', 'condition_script'] },
+    { type: 'processor', typeLabel: 'Processor', table: 'sys_processor', nameField: 'name', scriptFields: ['script'] },
+    { type: 'ui script', typeLabel: 'UI Script', table: 'sys_ui_script', nameField: 'name', scriptFields: ['script'] },
+    { type: 'widget', typeLabel: 'Service Portal Widget', table: 'sp_widget', nameField: 'name', scriptFields: ['script', 'client_script', 'link'] },
+    // Flow Designer actions are not listed: their script steps are stored as variable values (sys_variable_value),
+    // not in a field of the action record
+];
+
+/**
+ * Looks up a script type by its key (e.g., 'ui action') or label (e.g., 'UI Action'), case-insensitively.
+ */
+export function findScriptTableDefinition(scriptType: string): ScriptTableDefinition | undefined {
+    const wanted = scriptType.trim().toLowerCase();
+    return SCRIPT_TABLES.find(definition => definition.type === wanted || definition.typeLabel.toLowerCase() === wanted);
+}
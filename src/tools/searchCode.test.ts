@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import { searchCode } from './searchCode.js';
+
+const getPaginated = vi.fn(async (path: string) => ({
+    records: path === '/table/sys_script_include'
+        ? [{ name: 'Util', sys_id: 'si1', sys_updated_on: '2024-01-01 00:00:00', script: `var a = 1;\n${' '.repeat(2000)}var b = 2;` }]
+        : [],
+    totalCount: 0,
+    truncated: false,
+}));
+
+vi.mock('../services/serviceNowService.js', () => ({
+    getAuthenticatedClient: () => ({ getPaginated }),
+}));
+
+describe('searchCode regex safety', () => {
+    it('refuses long patterns', async () => {
+        await expect(searchCode({ keywords: 'var', regex: 'a'.repeat(201) })).rejects.toThrow(/limited to 200 characters/);
+    });
+
+    it('refuses nested quantifiers before querying the instance', async () => {
+        getPaginated.mockClear();
+        for (const regex of ['(a+)+$', '(\\w*)*x', '(?:ab+){2,}']) {
+            await expect(searchCode({ keywords: 'var', regex }), regex).rejects.toThrow(/nested quantifiers/);
+        }
+        expect(getPaginated).not.toHaveBeenCalled();
+    });
+
+    it('accepts quantified groups without inner quantifiers', async () => {
+        const { results } = await searchCode({ keywords: 'var', regex: 'var (a|b) = \\d', scriptType: 'script include' });
+        expect(results[0].matchCount).toBe(1);
+    });
+
+    it('only matches the start of very long lines in regex mode', async () => {
+        const withRegex = await searchCode({ keywords: 'var', regex: 'var b', scriptType: 'script include' });
+        expect(withRegex.results).toEqual([]);
+
+        const withKeywords = await searchCode({ keywords: 'var b', scriptType: 'script include' });
+        expect(withKeywords.results[0].matches[0].line).toBe(2);
+    });
+});
@@ -0,0 +1,213 @@
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { SCRIPT_TABLES, ScriptTableDefinition, findScriptTableDefinition } from './scriptRegistry.js';
+
+interface SearchCodeArgs {
+    keywords: string; // Prefilter on the instance (LIKE on the script fields)
+    regex?: string; // Optional pattern the code must match locally; replaces the keywords when locating matches
+    caseSensitive?: boolean; // Applies to the local matching only (defaults to false)
+    tableName?: string; // Restricts record types bound to a table (Business Rules, Client Scripts, ...) to this table
+    scriptType?: string; // One of the types in SCRIPT_TABLES
+    scopeName?: string; // Technical name or label of the application scope
+    contextLines?: number; // Lines of context around each match (defaults to DEFAULT_CONTEXT_LINES)
+    maxResults?: number; // Defaults to DEFAULT_MAX_RESULTS
+    instance?: string; // Optional instance (profile) name
+}
+
+interface CodeMatch {
+    field: string; // Script field that matched, e.g. 'script' or 'condition'
+    line: number; // 1-based
+    snippet: string; // The matching line with context, each line prefixed with its number
+}
+
+interface CodeSearchHit {
+    name: string;
+    type: string;
+    table: string | null;
+    sys_id: string;
+    scope: string;
+    updated_on: string;
+    matchCount: number; // Occurrences across all script fields
+    matches: CodeMatch[]; // One entry per matching line, up to MAX_MATCHES_PER_HIT
+}
+
+interface CodeSearchResult {
+    keywords: string;
+    regex: string | null;
+    totalHits: number;
+    truncated: boolean; // More hits than maxResults, or more candidates on the instance than were scanned
+    results: CodeSearchHit[];
+}
+
+const DEFAULT_CONTEXT_LINES = 2;
+const MAX_CONTEXT_LINES = 10;
+const DEFAULT_MAX_RESULTS = 20;
+const MAX_MAX_RESULTS = 100;
+const MAX_MATCHES_PER_HIT = 10;
+
+// Records fetched per script type for local matching; script bodies are large
+const CANDIDATE_LIMIT = 200;
+
+// Guards against catastrophic backtracking in caller-supplied regexes: a bounded pattern, no quantified group
+// that itself contains a quantifier (e.g., (a+)+), bounded input per line and a time budget for the whole search
+const MAX_REGEX_LENGTH = 200;
+const NESTED_QUANTIFIER_REGEX = /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,)/;
+const MAX_REGEX_LINE_LENGTH = 1000;
+const REGEX_TIME_BUDGET_MS = 5000;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compiles a caller-supplied regex, refusing patterns prone to catastrophic backtracking.
+ */
+function compileRegex(regex: string, caseSensitive?: boolean): RegExp {
+    if (regex.length > MAX_REGEX_LENGTH) {
+        throw new Error(`Invalid regex: patterns are limited to ${MAX_REGEX_LENGTH} characters.`);
+    }
+    if (NESTED_QUANTIFIER_REGEX.test(regex)) {
+        throw new Error(`Invalid regex '${regex}': nested quantifiers such as (a+)+ can take exponential time. Simplify the pattern.`);
+    }
+    try {
+        return new RegExp(regex, caseSensitive ? 'g' : 'gi');
+    } catch (e) {
+        throw new Error(`Invalid regex '${regex}': ${(e as Error).message}`);
+    }
+}
+
+// Limits applied when matching a caller-supplied regex
+interface RegexLimits {
+    maxLineLength: number; // Longer lines (e.g., minified code) are only matched on their start
+    deadline: number; // Epoch milliseconds after which the search fails
+}
+
+/**
+ * Finds the matching lines of one script field.
+ * @returns The number of occurrences and a snippet per matching line
+ */
+function matchField(field: string, code: string, pattern: RegExp, contextLines: number, limits?: RegexLimits): { count: number; matches: CodeMatch[] } {
+    const lines = code.split(/\r?\n/);
+    const width = String(lines.length).length;
+    const matches: CodeMatch[] = [];
+    let count = 0;
+
+    lines.forEach((lineText, index) => {
+        if (limits && Date.now() > limits.deadline) {
+            throw new Error(`The regex took longer than ${REGEX_TIME_BUDGET_MS / 1000}s to evaluate. Simplify the pattern or narrow the search.`);
+        }
+        const searched = limits ? lineText.slice(0, limits.maxLineLength) : lineText;
+        const occurrences = Array.from(searched.matchAll(pattern)).length;
+        if (occurrences === 0) {
+            return;
+        }
+        count += occurrences;
+        const start = Math.max(0, index - contextLines);
+        const end = Math.min(lines.length, index + contextLines + 1);
+        matches.push({
+            field,
+            line: index + 1,
+            snippet: lines
+                .slice(start, end)
+                .map((text, offset) => `${String(start + offset + 1).padStart(width)}| ${text}`)
+                .join('\n'),
+        });
+    });
+
+    return { count, matches };
+}
+
+/**
+ * Searches code across all script-bearing record types. The instance prefilters with LIKE on the keywords;
+ * matches are then located locally (optionally with a regex) and returned with line numbers and context.
+ * Results are ranked by number of matches, then by most recently updated.
+ */
+export async function searchCode(args: SearchCodeArgs): Promise<CodeSearchResult> {
+    const { keywords, regex, tableName, scriptType, scopeName, instance } = args;
+
+    if (!keywords || !keywords.trim()) {
+        throw new Error('keywords is required: it is used to prefilter the code on the instance.');
+    }
+
+    const pattern = regex ? compileRegex(regex, args.caseSensitive) : new RegExp(escapeRegExp(keywords), args.caseSensitive ? 'g' : 'gi');
+
+    let definitions: ScriptTableDefinition[] = SCRIPT_TABLES;
+    if (scriptType) {
+        const definition = findScriptTableDefinition(scriptType);
+        if (!definition) {
+            throw new Error(`Invalid scriptType specified: '${scriptType}'. Valid types are: ${SCRIPT_TABLES.map(d => d.type).join(', ')}.`);
+        }
+        definitions = [definition];
+    }
+
+    const contextLines = Math.min(Math.max(args.contextLines ?? DEFAULT_CONTEXT_LINES, 0), MAX_CONTEXT_LINES);
+    const maxResults = Math.min(Math.max(args.maxResults ?? DEFAULT_MAX_RESULTS, 1), MAX_MAX_RESULTS);
+
+    const client = getAuthenticatedClient(instance);
+    const hits: CodeSearchHit[] = [];
+    let truncated = false;
+    let regexBudgetMs = REGEX_TIME_BUDGET_MS; // Spent on local matching only, not on waiting for the instance
+
+    for (const { table, typeLabel, nameField, scriptFields, tableField } of definitions) {
+        const query = new QueryBuilder()
+            .whereAny(scriptFields.map(field => ({ field, operator: 'LIKE' as const, value: keywords })));
+        if (tableName && tableField) {
+            query.where(tableField, '=', tableName);
+        }
+        if (scopeName) {
+            query.where('sys_scope.scope', '=', scopeName).orWhere('sys_scope.name', '=', scopeName);
+        }
+
+        let response;
+        try {
+            response = await client.getPaginated<any>(`/table/${table}`, {
+                sysparm_query: query.build(),
+                sysparm_fields: [nameField, 'sys_id', 'sys_updated_on', 'sys_scope.scope', 'sys_scope.name', ...scriptFields, ...(tableField ? [tableField] : [])].join(','),
+                sysparm_display_value: 'false',
+            }, { maxRecords: CANDIDATE_LIMIT });
+        } catch (error: any) {
+            // Tables of inactive plugins (e.g., Service Portal) do not exist on every instance
+            continue;
+        }
+        truncated = truncated || response.truncated;
+
+        const matchingStart = Date.now();
+        const limits: RegexLimits | undefined = regex
+            ? { maxLineLength: MAX_REGEX_LINE_LENGTH, deadline: matchingStart + regexBudgetMs }
+            : undefined;
+
+        for (const record of response.records) {
+            let matchCount = 0;
+            const matches: CodeMatch[] = [];
+            for (const field of scriptFields) {
+                const result = matchField(field, String(record[field] || ''), pattern, contextLines, limits);
+                matchCount += result.count;
+                matches.push(...result.matches);
+            }
+            if (matchCount === 0) {
+                continue; // LIKE matched but the regex (or a case-sensitive search) did not
+            }
+            hits.push({
+                name: record[nameField],
+                type: typeLabel,
+                table: (tableField && record[tableField]) || null,
+                sys_id: record.sys_id,
+                scope: record['sys_scope.scope'] || record['sys_scope.name'] || 'Global',
+                updated_on: record.sys_updated_on,
+                matchCount,
+                matches: matches.slice(0, MAX_MATCHES_PER_HIT),
+            });
+        }
+        regexBudgetMs -= Date.now() - matchingStart;
+    }
+
+    hits.sort((a, b) => b.matchCount - a.matchCount || String(b.updated_on).localeCompare(String(a.updated_on)));
+
+    return {
+        keywords,
+        regex: regex || null,
+        totalHits: hits.length,
+        truncated: truncated || hits.length > maxResults,
+        results: hits.slice(0, maxResults),
+    };
+}
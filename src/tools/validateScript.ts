@@ -0,0 +1,313 @@
+import ts from 'typescript';
+import { getAuthenticatedClient } from '../services/serviceNowService.js';
+import { QueryBuilder } from '../services/queryBuilder.js';
+import { TableSchema } from '../types.js';
+import { getTableSchema } from './getTableSchema.js';
+import { getFieldChoices } from './getFieldChoices.js';
+import { getScriptIncludeApi, fetchScriptInclude } from './getScriptIncludeApi.js';
+import { findScriptReferences } from './scriptReferences.js';
+
+interface ValidateScriptArgs {
+    script: string;
+    tableName?: string; // Table of current / previous, e.g. for a Business Rule
+    instance?: string; // Optional instance (profile) name
+}
+
+type DiagnosticCode = 'syntax' | 'unknown-table' | 'unknown-field' | 'invalid-choice' | 'unknown-script-include' | 'unknown-method' | 'unknown-property';
+
+interface ScriptDiagnostic {
+    line: number; // 1-based
+    column: number; // 1-based
+    severity: 'error' | 'warning';
+    code: DiagnosticCode;
+    message: string;
+}
+
+interface ScriptValidationResult {
+    valid: boolean; // No errors (warnings allowed)
+    errorCount: number;
+    warningCount: number;
+    diagnostics: ScriptDiagnostic[];
+}
+
+// A table, field or value the script uses, with the node to report problems on
+interface TableUse { table: string; node: ts.Node }
+interface FieldUse { table: string; field: string; node: ts.Node }
+interface ChoiceUse { table: string; field: string; value: string; node: ts.Node }
+
+// Constructors whose first argument is a table name
+const TABLE_CLASSES = ['GlideRecord', 'GlideRecordSecure', 'GlideAggregate'];
+
+// GlideRecord / GlideAggregate methods taking a field name, by argument position
+const FIELD_ARGUMENT_METHODS: { [method: string]: number } = {
+    getValue: 0,
+    setValue: 0,
+    getDisplayValue: 0,
+    setDisplayValue: 0,
+    getElement: 0,
+    addQuery: 0,
+    addNullQuery: 0,
+    addNotNullQuery: 0,
+    orderBy: 0,
+    orderByDesc: 0,
+    groupBy: 0,
+    addAggregate: 1,
+    getAggregate: 1,
+};
+
+// addQuery operators after which the third argument is a single value to compare with the field
+const EQUALITY_OPERATORS = ['=', '!='];
+
+const COMPARISON_TOKENS = [
+    ts.SyntaxKind.EqualsEqualsToken,
+    ts.SyntaxKind.EqualsEqualsEqualsToken,
+    ts.SyntaxKind.ExclamationEqualsToken,
+    ts.SyntaxKind.ExclamationEqualsEqualsToken,
+];
+
+function literalValue(node: ts.Node | undefined): string | undefined {
+    if (node && (ts.isStringLiteralLike(node) || ts.isNumericLiteral(node))) {
+        return node.text;
+    }
+    return undefined;
+}
+
+/**
+ * Checks a server-side script against the instance before it is saved: syntax, tables opened with GlideRecord,
+ * field names used on those records, choice values compared with or assigned to choice fields, Script Includes
+ * and their methods, and system properties read with gs.getProperty. Diagnostics carry 1-based line and column.
+ */
+export async function validateScript(args: ValidateScriptArgs): Promise<ScriptValidationResult> {
+    const { script, tableName, instance } = args;
+
+    if (typeof script !== 'string' || !script.trim()) {
+        throw new Error('script is required.');
+    }
+
+    const sourceFile = ts.createSourceFile('script.js', script, ts.ScriptTarget.Latest, true, ts.ScriptKind.JS);
+    const diagnostics: ScriptDiagnostic[] = [];
+
+    function report(node: ts.Node | number, severity: ScriptDiagnostic['severity'], code: DiagnosticCode, message: string) {
+        const position = typeof node === 'number' ? node : node.getStart(sourceFile);
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+        diagnostics.push({ line: line + 1, column: character + 1, severity, code, message });
+    }
+
+    // 1. Syntax
+    const transpiled = ts.transpileModule(script, {
+        fileName: 'script.js',
+        reportDiagnostics: true,
+        compilerOptions: { allowJs: true, target: ts.ScriptTarget.ES2021 },
+    });
+    for (const diagnostic of transpiled.diagnostics || []) {
+        report(diagnostic.start ?? 0, 'error', 'syntax', ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+    }
+
+    // 2. Collect the tables, fields and choice values the script uses
+    const recordTables = new Map<string, string>(); // Variable name => table of the GlideRecord it holds
+    if (tableName) {
+        recordTables.set('current', tableName);
+        recordTables.set('previous', tableName);
+    }
+    const tableUses: TableUse[] = [];
+    const fieldUses: FieldUse[] = [];
+    const choiceUses: ChoiceUse[] = [];
+    const propertyUses: { name: string; node: ts.Node }[] = [];
+
+    function trackRecord(variable: ts.Node, initializer: ts.Expression | undefined) {
+        if (ts.isIdentifier(variable) && initializer && ts.isNewExpression(initializer)
+            && ts.isIdentifier(initializer.expression) && TABLE_CLASSES.includes(initializer.expression.text)) {
+            const table = literalValue(initializer.arguments?.[0]);
+            if (table) {
+                recordTables.set(variable.text, table);
+            }
+        }
+    }
+
+    // The table of gr in gr.field or gr.setValue(...), when gr holds a known GlideRecord
+    function recordTableOf(expression: ts.Expression): string | undefined {
+        return ts.isIdentifier(expression) ? recordTables.get(expression.text) : undefined;
+    }
+
+    function visit(node: ts.Node) {
+        if (ts.isVariableDeclaration(node)) {
+            trackRecord(node.name, node.initializer);
+        } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+            trackRecord(node.left, node.right);
+        }
+
+        if (ts.isNewExpression(node) && ts.isIdentifier(node.expression) && TABLE_CLASSES.includes(node.expression.text)) {
+            const tableArgument = node.arguments?.[0];
+            const table = literalValue(tableArgument);
+            if (tableArgument && table) {
+                tableUses.push({ table, node: tableArgument });
+            }
+        }
+
+        if (ts.isPropertyAccessExpression(node)) {
+            const table = recordTableOf(node.expression);
+            const isCallee = ts.isCallExpression(node.parent) && node.parent.expression === node;
+            if (table && !isCallee) {
+                // gr.field, gr.field.getDisplayValue(), gr.field = value
+                const field = node.name.text;
+                fieldUses.push({ table, field, node: node.name });
+
+                const parent = node.parent;
+                if (ts.isBinaryExpression(parent) && parent.left === node
+                    && (parent.operatorToken.kind === ts.SyntaxKind.EqualsToken || COMPARISON_TOKENS.includes(parent.operatorToken.kind))) {
+                    const value = literalValue(parent.right);
+                    if (value !== undefined) {
+                        choiceUses.push({ table, field, value, node: parent.right });
+                    }
+                }
+            }
+        }
+
+        if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+            const method = node.expression.name.text;
+            const table = recordTableOf(node.expression.expression);
+            const position = FIELD_ARGUMENT_METHODS[method];
+            const fieldArgument = position === undefined ? undefined : node.arguments[position];
+            const fieldName = literalValue(fieldArgument);
+            // addQuery('encoded^query') with a single argument is not a field name
+            const isEncodedQuery = method === 'addQuery' && node.arguments.length < 2;
+
+            if (table && fieldArgument && fieldName && !isEncodedQuery) {
+                // Dot-walked names are checked up to the first reference
+                const field = fieldName.split('.')[0];
+                fieldUses.push({ table, field, node: fieldArgument });
+
+                if (method === 'setValue' || method === 'addQuery') {
+                    const operator = node.arguments.length > 2 ? literalValue(node.arguments[1]) : '=';
+                    const valueArgument = node.arguments.length > 2 ? node.arguments[2] : node.arguments[1];
+                    const value = literalValue(valueArgument);
+                    if (field === fieldName && operator && EQUALITY_OPERATORS.includes(operator) && value !== undefined) {
+                        choiceUses.push({ table, field, value, node: valueArgument });
+                    }
+                }
+            }
+
+            const target = node.expression.expression;
+            const propertyName = literalValue(node.arguments[0]);
+            if (ts.isIdentifier(target) && target.text === 'gs' && method === 'getProperty' && propertyName) {
+                propertyUses.push({ name: propertyName, node: node.arguments[0] });
+            }
+        }
+
+        ts.forEachChild(node, visit);
+    }
+
+    visit(sourceFile);
+
+    // 3. Tables and fields
+    const schemas = new Map<string, TableSchema | null>();
+    const tablesToLoad = new Set([...tableUses.map(use => use.table), ...fieldUses.map(use => use.table)]);
+    for (const table of tablesToLoad) {
+        schemas.set(table, await getTableSchema(table, instance));
+    }
+
+    for (const { table, node } of tableUses) {
+        if (!schemas.get(table)) {
+            report(node, 'error', 'unknown-table', `Table '${table}' does not exist.`);
+        }
+    }
+    if (tableName && !schemas.get(tableName) && fieldUses.some(use => use.table === tableName)) {
+        report(0, 'error', 'unknown-table', `Table '${tableName}' (of current) does not exist.`);
+    }
+
+    for (const { table, field, node } of fieldUses) {
+        const schema = schemas.get(table);
+        if (schema && !schema.fields.some(f => f.name === field)) {
+            report(node, 'error', 'unknown-field', `Field '${field}' does not exist on table '${schema.name}'.`);
+        }
+    }
+
+    // 4. Choice values; fields without choices accept any value
+    const choiceLists = new Map<string, string[]>();
+    for (const { table, field, value, node } of choiceUses) {
+        const schema = schemas.get(table);
+        const fieldSchema = schema?.fields.find(f => f.name === field);
+        if (!schema || !fieldSchema || fieldSchema.type === 'reference') {
+            continue;
+        }
+        const key = `${schema.name}.${field}`;
+        if (!choiceLists.has(key)) {
+            // Choices are usually defined on the table itself, otherwise on the table defining the field
+            let choices = await getFieldChoices(schema.name, field, instance);
+            if ((!choices || choices.records.length === 0) && fieldSchema.definedOn !== schema.name) {
+                choices = await getFieldChoices(fieldSchema.definedOn, field, instance);
+            }
+            choiceLists.set(key, (choices?.records || []).map(choice => String(choice.value)));
+        }
+        const values = choiceLists.get(key) as string[];
+        if (values.length > 0 && !values.includes(value)) {
+            report(node, 'warning', 'invalid-choice', `'${value}' is not a choice of ${key}. Valid values are: ${values.join(', ')}.`);
+        }
+    }
+
+    // 5. Script Includes and their methods, reported at their first mention
+    function firstMention(name: string, asMethod = false): ts.Node | number {
+        let found: ts.Node | undefined;
+        const search = (node: ts.Node) => {
+            if (found) {
+                return;
+            }
+            const matches = asMethod
+                ? ts.isPropertyAccessExpression(node) && node.name.text === name
+                : (ts.isIdentifier(node) || ts.isStringLiteralLike(node)) && node.text === name;
+            if (matches) {
+                found = asMethod ? (node as ts.PropertyAccessExpression).name : node;
+                return;
+            }
+            ts.forEachChild(node, search);
+        };
+        search(sourceFile);
+        return found ?? 0;
+    }
+
+    const client = getAuthenticatedClient(instance);
+    const references = findScriptReferences(script);
+    for (const scriptInclude of references.scriptIncludes) {
+        if (!(await fetchScriptInclude(client, scriptInclude))) {
+            report(firstMention(scriptInclude.split('.').pop() as string), 'error', 'unknown-script-include',
+                `Script Include '${scriptInclude}' was not found.`);
+            continue;
+        }
+        const api = await getScriptIncludeApi(scriptInclude, instance);
+        if (api.kind === 'unknown' || api.kind === 'function') {
+            continue;
+        }
+        for (const entry of references.methods.filter(m => m.startsWith(`${scriptInclude}.`))) {
+            const method = entry.substring(scriptInclude.length + 1);
+            if (!api.functions.some(f => f.name === method)) {
+                report(firstMention(method, true), 'error', 'unknown-method',
+                    `Script Include '${api.apiName}' has no method '${method}'. Available methods: ${api.functions.filter(f => !f.isPrivate && !f.isConstructor).map(f => f.name).join(', ') || 'none'}.`);
+            }
+        }
+    }
+
+    // 6. System properties, in one request; a default value may make a missing property intentional
+    if (propertyUses.length > 0) {
+        const names = Array.from(new Set(propertyUses.map(use => use.name))).filter(name => !name.includes(','));
+        const response = await client.getPaginated<{ name: string }>('/table/sys_properties', {
+            sysparm_query: new QueryBuilder().where('name', 'IN', names).build(),
+            sysparm_fields: 'name',
+        });
+        const existing = new Set(response.records.map(property => property.name));
+        for (const { name, node } of propertyUses) {
+            if (!existing.has(name)) {
+                report(node, 'warning', 'unknown-property', `System property '${name}' does not exist; gs.getProperty will return its default value.`);
+            }
+        }
+    }
+
+    diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+    const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+
+    return {
+        valid: errorCount === 0,
+        errorCount,
+        warningCount: diagnostics.length - errorCount,
+        diagnostics,
+    };
+}
@@ -7,12 +7,16 @@ export interface FieldSchema {
     maxLength?: number; // Max length from sys_dictionary (max_length.value)
     mandatory?: boolean; // Is the field mandatory? (mandatory.value)
     readOnly?: boolean; // Is the field read-only? (read_only.value)
+    definedOn: string; // Table in the hierarchy whose sys_dictionary entry defines the field
+    overriddenOn?: string; // Table whose sys_dictionary_override last changed the field, if any
 }
 
 export interface TableSchema {
     label: string;
     name: string;
+    hierarchy: string[]; // The table followed by its ancestors up to the root (e.g., ['incident', 'task'])
     fields: FieldSchema[]; // Use the exported FieldSchema interface
+    truncated?: boolean; // Set when the dictionary had more entries than the max-records cap
 }
 
 export enum MimeType {
@@ -23,10 +27,27 @@ export enum MimeType {
     TEXT = 'text/plain',
 }
 
-export interface Resource {
+// Type aliases (not interfaces) so they satisfy the SDK's passthrough result schemas
+export type Resource = {
     name: string;
     mimeType: MimeType;
     uri: string;
+    description?: string;
+};
+
+// A parameterised resource (RFC 6570 URI template) advertised to MCP clients
+export type ResourceTemplate = {
+    name: string;
+    mimeType: MimeType;
+    uriTemplate: string;
+    description?: string;
+};
+
+// A list of records fetched page by page; truncated is true when the instance had more matches than were fetched
+export interface PaginatedResult<T> {
+    records: T[];
+    totalCount: number | null; // X-Total-Count reported by the instance, if any
+    truncated: boolean;
 }
 
 // Helper type for fields that return value/display_value pairs
@@ -43,6 +64,7 @@ export interface SysDbObjectRecord {
     name: string; // Technical table name
     label: string; // Display label for the table
     sys_id: string;
+    'super_class.name'?: string; // Parent table name (dot-walked), empty for root tables
     // Add other sys_db_object fields if needed
 }
 
@@ -53,6 +75,7 @@ export interface SysDbObjectResponse {
 
 // Interface for a single record from sys_dictionary
 export interface SysDictionaryRecord {
+    name?: ValueDisplayValue; // Table the entry is defined on
     element: ValueDisplayValue; // Field name
     internal_type: ValueDisplayValue; // Field type
     column_label?: ValueDisplayValue; // Field display label
@@ -69,6 +92,21 @@ export interface SysDictionaryResponse {
     result: SysDictionaryRecord[];
 }
 
+// Interface for a single record from sys_dictionary_override
+export interface SysDictionaryOverrideRecord {
+    name: ValueDisplayValue; // Table the override applies to (and its children)
+    element: ValueDisplayValue; // Field name
+    mandatory_override?: ValueDisplayValue; // Whether the mandatory flag is overridden
+    mandatory?: ValueDisplayValue; // Overridden mandatory flag ('true'/'false')
+    read_only_override?: ValueDisplayValue; // Whether the read-only flag is overridden
+    read_only?: ValueDisplayValue; // Overridden read-only flag ('true'/'false')
+}
+
+// Interface for the response from /api/now/table/sys_dictionary_override
+export interface SysDictionaryOverrideResponse {
+    result: SysDictionaryOverrideRecord[];
+}
+
 // --- Interfaces for ServiceNow sys_choice API Response ---
 
 // Interface for a single record from sys_choice (needed for getFieldChoices)